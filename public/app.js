@@ -3,6 +3,7 @@
   var pageCount = 0;
   var doneCount = 0;
   var currentJobId = null;
+  var inputMode = 'xml';
   var globalSeenErrors = new Set();
   var tplTarget = $('tpl-target');
   var tplLogEntry = $('tpl-log-entry');
@@ -38,6 +39,19 @@
     sysLog('ABORTING...');
   });
 
+  Array.prototype.forEach.call(document.querySelectorAll('.mode-tab'), function (tab) {
+    tab.addEventListener('click', function () {
+      inputMode = tab.dataset.mode;
+      Array.prototype.forEach.call(document.querySelectorAll('.mode-tab'), function (t) {
+        t.classList.toggle('active', t === tab);
+        t.setAttribute('aria-selected', t === tab ? 'true' : 'false');
+      });
+      Array.prototype.forEach.call(document.querySelectorAll('.mode-pane'), function (pane) {
+        pane.hidden = pane.dataset.mode !== inputMode;
+      });
+    });
+  });
+
   $('unique-toggle').addEventListener('change', function (e) {
     document.body.classList.toggle('strict-unique', e.target.checked);
   });
@@ -66,6 +80,60 @@
       String(c).padStart(3, '0') + ' / ' + String(t).padStart(3, '0');
   }
 
+  function lines(value) {
+    return value.split('\n').map(function (l) { return l.trim(); }).filter(Boolean);
+  }
+
+  function positiveInt(value) {
+    var n = parseInt(value, 10);
+    return n > 0 ? n : undefined;
+  }
+
+  function clearResults() {
+    $('empty-state').style.display = 'none';
+    $('data-flow').replaceChildren();
+    $('dash-summary').style.display = 'none';
+    $('filter-bar').style.display = 'flex';
+    pageCount = 0;
+    doneCount = 0;
+    globalSeenErrors.clear();
+  }
+
+  function authParams() {
+    var headers = lines($('auth-headers').value);
+    var cookie = $('auth-cookie').value.trim();
+    var username = $('auth-user').value.trim();
+    if (!headers.length && !cookie && !username) return undefined;
+    return { headers: headers, cookie: cookie || undefined, username: username || undefined, password: $('auth-pass').value };
+  }
+
+  // Resolves to the request fields for the selected source, or null when it is empty
+  function readPayload() {
+    if (inputMode === 'sitemap') {
+      var url = $('sitemap-url').value.trim();
+      return Promise.resolve(url ? { sitemapUrl: url } : null);
+    }
+    if (inputMode === 'urls') {
+      var list = $('url-list').value.trim();
+      return Promise.resolve(list ? { urls: list } : null);
+    }
+    if (inputMode === 'file') {
+      var file = $('upload').files[0];
+      if (!file) return Promise.resolve(null);
+      return new Promise(function (resolve, reject) {
+        var reader = new FileReader();
+        reader.onload = function () {
+          var dataUrl = String(reader.result);
+          resolve({ file: { name: file.name, content: dataUrl.slice(dataUrl.indexOf(',') + 1) } });
+        };
+        reader.onerror = function () { reject(new Error('ERR_FILE_READ: ' + file.name)); };
+        reader.readAsDataURL(file);
+      });
+    }
+    var xml = $('xml').value.trim();
+    return Promise.resolve(xml ? { xml: xml } : null);
+  }
+
   function showStop() { $('stop-btn').style.display = 'block'; }
   function hideStop() { $('stop-btn').style.display = 'none'; }
 
@@ -76,41 +144,54 @@
     $('status-line').style.animation = 'none';
     hideStop();
     currentJobId = null;
+    loadHistory();
   }
 
   $('cfg').addEventListener('submit', function (e) {
     e.preventDefault();
 
-    var xml = $('xml').value.trim();
     var base = $('base').value.trim();
-
-    if (!xml) { sysLog('ERR: MISSING_PAYLOAD'); return; }
+    var since = $('since').value;
 
     $('start-btn').disabled = true;
-    $('start-btn').textContent = 'SCANNING...';
-    $('empty-state').style.display = 'none';
-    $('data-flow').replaceChildren();
-    $('dash-summary').style.display = 'none';
-    $('filter-bar').style.display = 'flex';
-    pageCount = 0;
-    doneCount = 0;
-    globalSeenErrors.clear();
-    sysLog('PARSING_XML_DATA');
-    updateMet(0, 0);
-
-    fetch('/api/validate', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ xml: xml, base: base, concurrency: 1, delay: 1000 })
-    })
-      .then(function (r) {
-        if (!r.ok) throw new Error('SERVER_LINK_FAIL ' + r.status);
-        return r.json();
+    readPayload()
+      .then(function (payload) {
+        if (!payload) throw new Error('ERR: MISSING_PAYLOAD');
+        $('start-btn').textContent = 'SCANNING...';
+        clearResults();
+        setHistoryLocked(true);
+        sysLog('PARSING_INPUT');
+        updateMet(0, 0);
+        return submitScan(payload, base, since);
       })
       .then(function (data) { currentJobId = data.jobId; showStop(); openStream(data.jobId); })
       .catch(function (err) { sysLog(err.message); resetBtn(); });
   });
 
+  function submitScan(payload, base, since) {
+    return fetch('/api/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(Object.assign({}, payload, {
+        base: base || undefined,
+        since: since || undefined,
+        include: lines($('include').value),
+        exclude: lines($('exclude').value),
+        maxPages: positiveInt($('max-pages').value),
+        samplePerGroup: positiveInt($('sample').value),
+        auth: authParams(),
+        concurrency: 1,
+        delay: 1000
+      }))
+    }).then(function (r) {
+      if (r.ok) return r.json();
+      return r.json().catch(function () { return {}; }).then(function (body) {
+        var code = r.status === 429 ? 'ERR_BUSY: ' : r.status === 413 ? 'ERR_TOO_LARGE: ' : 'ERR_INPUT: ';
+        throw new Error(body.error ? code + body.error : 'SERVER_LINK_FAIL ' + r.status);
+      });
+    });
+  }
+
   function openStream(jobId) {
     var es = new EventSource('/api/stream/' + jobId);
     es.onmessage = function (e) {
@@ -124,9 +205,12 @@
 
   function handleEvent(msg, jobId) {
     if (msg.type === 'sitemap_error') {
-      sysLog('ERR_XML: ' + msg.message);
+      sysLog('ERR_INPUT: ' + msg.message);
       resetBtn();
     }
+    else if (msg.type === 'sitemap_loading') {
+      sysLog('FETCHING_SITEMAP: ' + msg.url);
+    }
     else if (msg.type === 'sitemapindex_resolving') {
       sysLog('SITEMAPINDEX_DETECTED — RESOLVING ' + msg.count + ' NESTED SITEMAP(S)');
     }
@@ -144,7 +228,13 @@
     }
     else if (msg.type === 'sitemap_done') {
       pageCount = msg.count;
-      sysLog('URLS_EXTRACTED_AWAITING_VALIDATION');
+      if (msg.groups) {
+        sysLog('SAMPLED ' + msg.count + ' OF ' + msg.totalUrls + ' URLs ACROSS ' + msg.groups.length + ' TEMPLATES');
+      } else if (msg.totalUrls > msg.count) {
+        sysLog('FILTERED ' + msg.count + ' OF ' + msg.totalUrls + ' URLs');
+      } else {
+        sysLog('URLS_EXTRACTED_AWAITING_VALIDATION');
+      }
       updateMet(0, pageCount);
       renderTargets(msg.urls);
     }
@@ -160,7 +250,7 @@
       resetBtn();
     }
     else if (msg.type === 'done') {
-      if (msg.summary) renderDash(msg.summary, jobId);
+      if (msg.summary) renderDash(msg.summary, jobId, msg.issues, msg.source);
       sysLog('SEQUENCE_COMPLETE');
       resetBtn();
     }
@@ -239,6 +329,19 @@
       meta.appendChild(errSpan);
     }
 
+    if (data && data.attempts > 1) {
+      var triesSpan = document.createElement('span');
+      triesSpan.textContent = '[' + data.attempts + ' TRIES]';
+      meta.appendChild(triesSpan);
+    }
+
+    if (data && data.fallbackReason) {
+      var fbSpan = document.createElement('span');
+      fbSpan.textContent = '[FALLBACK]';
+      fbSpan.title = data.fallbackReason;
+      meta.appendChild(fbSpan);
+    }
+
     if (data && data.duration) {
       var durSpan = document.createElement('span');
       durSpan.textContent = '[' + fmt(data.duration) + ']';
@@ -263,7 +366,7 @@
     stream.className = 'log-stream fade-in-up';
 
     msgs.forEach(function (m) {
-      var hash = m.type + '::' + m.message.trim();
+      var hash = m.key || m.type + '::' + m.message.trim();
       var isDup = globalSeenErrors.has(hash);
       globalSeenErrors.add(hash);
 
@@ -294,7 +397,7 @@
     wrap.querySelector('.target-block').appendChild(stream);
   }
 
-  function renderDash(s, jobId) {
+  function renderDash(s, jobId, issues, source) {
     var box = $('dash-summary');
     var c = $('dash-content');
     c.replaceChildren();
@@ -342,6 +445,9 @@
 
     c.appendChild(grid);
 
+    if (issues && issues.length) c.appendChild(renderTopIssues(issues));
+    if (source) loadTrend(source, c);
+
     var dlBtn = document.createElement('button');
     dlBtn.className = 'dl-action';
     dlBtn.textContent = 'DOWNLOAD_DIAGNOSTIC_REPORT.HTML';
@@ -354,6 +460,130 @@
     box.scrollIntoView({ behavior: 'smooth', block: 'end' });
   }
 
+  function renderTopIssues(issues) {
+    var box = document.createElement('div');
+    box.className = 'top-issues';
+
+    var title = document.createElement('div');
+    title.className = 'stat-lbl';
+    title.textContent = 'TOP_ISSUES // BY_REACH';
+    box.appendChild(title);
+
+    var list = document.createElement('ol');
+    issues.forEach(function (issue) {
+      var li = document.createElement('li');
+      li.className = 'ti-' + issue.type;
+
+      var tpl = document.createElement('span');
+      tpl.className = 'ti-template';
+      tpl.textContent = issue.template;
+      if (issue.examples && issue.examples.length) tpl.title = issue.examples.join('\n');
+
+      var reach = document.createElement('span');
+      reach.className = 'ti-reach';
+      reach.textContent = issue.pages + ' PG' + (issue.occurrences > issue.pages ? ' / ' + issue.occurrences + 'x' : '');
+
+      li.appendChild(tpl);
+      li.appendChild(reach);
+      list.appendChild(li);
+    });
+    box.appendChild(list);
+    return box;
+  }
+
+  function loadTrend(source, parent) {
+    var box = document.createElement('div');
+    box.className = 'trend';
+    parent.insertBefore(box, parent.querySelector('.dl-action'));
+
+    fetch('/api/trends?source=' + encodeURIComponent(source))
+      .then(function (r) {
+        if (!r.ok) throw new Error('TREND_LINK_FAIL ' + r.status);
+        return r.json();
+      })
+      .then(function (trend) {
+        // A single run has nothing to compare against
+        if (trend.runs.length < 2) { box.remove(); return; }
+        renderTrend(box, trend);
+      })
+      .catch(function () { box.remove(); });
+  }
+
+  function renderTrend(box, trend) {
+    var runs = trend.runs;
+    var latest = runs[runs.length - 1];
+
+    var title = document.createElement('div');
+    title.className = 'stat-lbl';
+    title.textContent = 'TREND // LAST_' + runs.length + '_RUNS';
+    box.appendChild(title);
+
+    var svgNs = 'http://www.w3.org/2000/svg';
+    var w = 600, h = 120, pad = 8;
+    var max = Math.max.apply(null, [1].concat(runs.map(function (r) { return Math.max(r.totalErrors, r.totalWarnings); })));
+    var svg = document.createElementNS(svgNs, 'svg');
+    svg.setAttribute('viewBox', '0 0 ' + w + ' ' + h);
+    svg.setAttribute('class', 'trend-chart');
+    ['totalWarnings', 'totalErrors'].forEach(function (key) {
+      var line = document.createElementNS(svgNs, 'polyline');
+      line.setAttribute('class', key === 'totalErrors' ? 'tr-err' : 'tr-warn');
+      line.setAttribute('points', runs.map(function (r, i) {
+        var x = pad + (i / (runs.length - 1)) * (w - pad * 2);
+        var y = h - pad - (r[key] / max) * (h - pad * 2);
+        return x.toFixed(1) + ',' + y.toFixed(1);
+      }).join(' '));
+      svg.appendChild(line);
+    });
+    box.appendChild(svg);
+
+    var first = runs[0];
+    var stats = document.createElement('div');
+    stats.className = 'trend-stats';
+    [
+      ['ERRORS', first.totalErrors + ' \u2192 ' + latest.totalErrors, latest.totalErrors > first.totalErrors ? 'tr-err' : 'tr-ok'],
+      ['WARNINGS', first.totalWarnings + ' \u2192 ' + latest.totalWarnings, latest.totalWarnings > first.totalWarnings ? 'tr-warn' : 'tr-ok'],
+      ['REGRESSED', latest.regressed + ' PG', latest.regressed ? 'tr-err' : ''],
+      ['FIXED', latest.fixed + ' PG', latest.fixed ? 'tr-ok' : ''],
+    ].forEach(function (item) {
+      var cell = document.createElement('span');
+      var lbl = document.createElement('span');
+      lbl.className = 'stat-lbl';
+      lbl.textContent = item[0];
+      var val = document.createElement('span');
+      val.className = item[2];
+      val.textContent = item[1];
+      cell.appendChild(lbl);
+      cell.appendChild(val);
+      stats.appendChild(cell);
+    });
+    box.appendChild(stats);
+
+    if (trend.grown.length) {
+      var list = document.createElement('ol');
+      trend.grown.forEach(function (issue) {
+        var li = document.createElement('li');
+        li.className = 'ti-' + issue.type;
+        var tpl = document.createElement('span');
+        tpl.className = 'ti-template';
+        tpl.textContent = issue.template;
+        var reach = document.createElement('span');
+        reach.className = 'ti-reach';
+        reach.textContent = issue.previousPages + ' \u2192 ' + issue.pages + ' PG';
+        li.appendChild(tpl);
+        li.appendChild(reach);
+        list.appendChild(li);
+      });
+      box.appendChild(list);
+    }
+
+    var link = document.createElement('a');
+    link.className = 'trend-link';
+    link.href = '/api/trends?format=html&source=' + encodeURIComponent(trend.source);
+    link.target = '_blank';
+    link.textContent = 'OPEN_TREND_REPORT.HTML';
+    box.appendChild(link);
+  }
+
   function addStatCard(parent, label, value, cls) {
     var card = document.createElement('div');
     card.className = 'stat-card' + (cls ? ' ' + cls : '');
@@ -368,5 +598,107 @@
     parent.appendChild(card);
   }
 
+  function loadHistory() {
+    fetch('/api/jobs')
+      .then(function (r) {
+        if (!r.ok) throw new Error('ARCHIVE_LINK_FAIL ' + r.status);
+        return r.json();
+      })
+      .then(function (data) { renderHistory(data.jobs); })
+      .catch(function () { renderHistory([]); });
+  }
+
+  function renderHistory(list) {
+    var ul = $('history-list');
+    ul.replaceChildren();
+
+    if (!list.length) {
+      var empty = document.createElement('li');
+      empty.className = 'history-empty';
+      empty.textContent = 'NO_PREVIOUS_SCANS';
+      ul.appendChild(empty);
+      return;
+    }
+
+    list.forEach(function (job) {
+      var li = document.createElement('li');
+      var btn = document.createElement('button');
+      btn.type = 'button';
+      btn.className = 'history-item';
+      btn.dataset.jobId = job.id;
+      btn.disabled = !!currentJobId || job.status === 'running';
+
+      var src = document.createElement('span');
+      src.className = 'history-src';
+      src.textContent = job.source || job.id;
+      src.title = job.source || job.id;
+
+      var state = document.createElement('span');
+      var s = job.summary;
+      if (job.status === 'done' && s && (s.pagesWithErrors || s.pagesFailed)) {
+        state.className = 'history-state hs-errors';
+        state.textContent = s.totalErrors + ' ERR';
+      } else {
+        state.className = 'history-state hs-' + job.status;
+        state.textContent = job.status === 'done' ? 'CLEAN' : job.status;
+      }
+      if (job.error) state.title = job.error;
+
+      var when = document.createElement('span');
+      when.className = 'history-when';
+      when.textContent = new Date(job.createdAt).toLocaleString();
+
+      var pages = document.createElement('span');
+      pages.className = 'history-when';
+      pages.style.textAlign = 'right';
+      pages.textContent = s ? s.totalPages + ' PG' : '';
+
+      btn.appendChild(src);
+      btn.appendChild(state);
+      btn.appendChild(when);
+      btn.appendChild(pages);
+      btn.addEventListener('click', function () { openArchived(job.id); });
+
+      li.appendChild(btn);
+      ul.appendChild(li);
+    });
+  }
+
+  function setHistoryLocked(locked) {
+    var items = $('history-list').querySelectorAll('.history-item');
+    Array.prototype.forEach.call(items, function (btn) { btn.disabled = locked; });
+  }
+
+  function openArchived(jobId) {
+    if (currentJobId) return;
+    sysLog('LOADING_ARCHIVE');
+
+    fetch('/api/jobs/' + jobId)
+      .then(function (r) {
+        if (!r.ok) throw new Error('ARCHIVE_NOT_FOUND');
+        return r.json();
+      })
+      .then(function (job) {
+        clearResults();
+        pageCount = job.pages.length;
+        doneCount = pageCount;
+        updateMet(doneCount, pageCount);
+        renderTargets(job.pages.map(function (p) { return p.url; }));
+        job.pages.forEach(function (p, i) { updateTargetResult(i, p.status, p); });
+        if (job.summary) renderDash(job.summary, job.id, job.issues, job.status === 'done' ? job.source : null);
+
+        var items = $('history-list').querySelectorAll('.history-item');
+        Array.prototype.forEach.call(items, function (btn) {
+          btn.classList.toggle('active', btn.dataset.jobId === job.id);
+        });
+
+        if (job.status === 'failed') sysLog('ARCHIVE_FAILED: ' + (job.error || 'UNKNOWN'));
+        else if (job.status === 'done') sysLog('ARCHIVE_LOADED — ' + new Date(job.createdAt).toLocaleString());
+        else sysLog('ARCHIVE_' + job.status.toUpperCase() + ' — PARTIAL_RESULTS');
+      })
+      .catch(function (err) { sysLog('ERR: ' + err.message); });
+  }
+
+  loadHistory();
 
 })();
@@ -0,0 +1,178 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { readFile } from 'fs/promises'
+
+export interface Cookie {
+  domain: string
+  includeSubdomains: boolean
+  path: string
+  secure: boolean
+  /** Unix time in seconds; 0 for a session cookie. */
+  expires: number
+  name: string
+  value: string
+}
+
+export interface BasicAuth {
+  username: string
+  password: string
+}
+
+/** Credentials sent with sitemap, robots.txt and page requests — never to the validators. */
+export interface SiteAuth {
+  headers?: Record<string, string>
+  cookies?: Cookie[]
+  basic?: BasicAuth
+}
+
+interface AuthScope {
+  auth: SiteAuth
+  origins: Set<string>
+}
+
+const REDACTED = '[redacted]'
+// Shorter values would blank out ordinary words all over the report
+const MIN_REDACT_LENGTH = 4
+
+const scope = new AsyncLocalStorage<AuthScope>()
+
+export function parseHeader(value: string): [string, string] {
+  const colon = value.indexOf(':')
+  const name = colon > 0 ? value.slice(0, colon).trim() : ''
+  if (!name || /\s/.test(name)) {
+    throw new Error('Invalid header — expected "Name: value"')
+  }
+  return [name, value.slice(colon + 1).trim()]
+}
+
+export function parseHeaders(values: string[]): Record<string, string> {
+  return Object.fromEntries(values.map(parseHeader))
+}
+
+export function parseBasicAuth(value: string): BasicAuth {
+  const colon = value.indexOf(':')
+  if (colon <= 0) throw new Error('Invalid basic auth — expected "user:password"')
+  return { username: value.slice(0, colon), password: value.slice(colon + 1) }
+}
+
+/** Parses a Netscape/curl cookies.txt file, as exported by browser extensions and `curl -c`. */
+export function parseCookieJar(text: string): Cookie[] {
+  const cookies: Cookie[] = []
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine.trim()
+    if (line.startsWith('#HttpOnly_')) line = line.slice('#HttpOnly_'.length)
+    else if (!line || line.startsWith('#')) continue
+
+    const fields = line.split('\t')
+    if (fields.length < 7) continue
+    const [domain, includeSubdomains, path, secure, expires, name, ...value] = fields
+    cookies.push({
+      domain: domain.replace(/^\./, '').toLowerCase(),
+      includeSubdomains: includeSubdomains.toUpperCase() === 'TRUE' || domain.startsWith('.'),
+      path: path || '/',
+      secure: secure.toUpperCase() === 'TRUE',
+      expires: Number(expires) || 0,
+      name,
+      value: value.join('\t'),
+    })
+  }
+  return cookies
+}
+
+export async function loadCookieJar(path: string): Promise<Cookie[]> {
+  let text: string
+  try {
+    text = await readFile(path, 'utf-8')
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err)
+    throw new Error(`Failed to read cookie jar ${path}: ${message}`)
+  }
+  return parseCookieJar(text)
+}
+
+/** Moves `user:password@` out of a URL so it is never printed or stored. */
+export function splitUrlCredentials(url: string): { url: string; basic?: BasicAuth } {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return { url }
+  }
+  if (!parsed.username && !parsed.password) return { url }
+  const basic = { username: decodeURIComponent(parsed.username), password: decodeURIComponent(parsed.password) }
+  parsed.username = ''
+  parsed.password = ''
+  return { url: parsed.toString(), basic }
+}
+
+export function hasCredentials(auth: SiteAuth | undefined): auth is SiteAuth {
+  return !!auth && (Object.keys(auth.headers ?? {}).length > 0 || (auth.cookies?.length ?? 0) > 0 || !!auth.basic)
+}
+
+function cookieMatches(cookie: Cookie, url: URL): boolean {
+  const host = url.hostname.toLowerCase()
+  const domainOk = host === cookie.domain || (cookie.includeSubdomains && host.endsWith(`.${cookie.domain}`))
+  const pathOk = url.pathname.startsWith(cookie.path)
+  const expired = cookie.expires > 0 && cookie.expires * 1000 < Date.now()
+  return domainOk && pathOk && !expired && (!cookie.secure || url.protocol === 'https:')
+}
+
+/**
+ * Runs `fn` with credentials attached to requests for the given origins and
+ * for origins later added with `trustOrigin`. Other hosts, including the
+ * validators, are requested without them.
+ */
+export function withSiteAuth<T>(auth: SiteAuth | undefined, origins: string[], fn: () => Promise<T>): Promise<T> {
+  if (!hasCredentials(auth)) return fn()
+  return scope.run({ auth, origins: new Set(origins.map((url) => new URL(url).origin)) }, fn)
+}
+
+export function trustOrigin(url: string): void {
+  scope.getStore()?.origins.add(new URL(url).origin)
+}
+
+/** True when requests to this URL carry credentials, so only a local fetch can see the page. */
+export function hasSiteAuth(url: string): boolean {
+  const current = scope.getStore()
+  return !!current && current.origins.has(new URL(url).origin)
+}
+
+export function getAuthHeaders(url: string): Record<string, string> {
+  const current = scope.getStore()
+  const parsed = new URL(url)
+  if (!current || !current.origins.has(parsed.origin)) return {}
+
+  const { headers = {}, cookies = [], basic } = current.auth
+  const result: Record<string, string> = { ...headers }
+  if (basic) {
+    result.Authorization = `Basic ${Buffer.from(`${basic.username}:${basic.password}`).toString('base64')}`
+  }
+  const jar = cookies.filter((cookie) => cookieMatches(cookie, parsed)).map((cookie) => `${cookie.name}=${cookie.value}`)
+  if (jar.length > 0) {
+    const cookieHeader = Object.keys(result).find((name) => name.toLowerCase() === 'cookie')
+    const existing = cookieHeader ? result[cookieHeader] : undefined
+    if (cookieHeader) delete result[cookieHeader]
+    result.Cookie = [existing, ...jar].filter(Boolean).join('; ')
+  }
+  return result
+}
+
+/** Returns a function that blanks every secret value of `auth` out of a string. */
+export function createRedactor(auth: SiteAuth | undefined): (text: string) => string {
+  if (!hasCredentials(auth)) return (text) => text
+
+  const secrets = new Set<string>()
+  for (const value of Object.values(auth.headers ?? {})) {
+    secrets.add(value)
+    // "Bearer abc…" — the token alone may show up in an error message too
+    const token = value.split(/\s+/).pop()
+    if (token) secrets.add(token)
+  }
+  for (const cookie of auth.cookies ?? []) secrets.add(cookie.value)
+  if (auth.basic) {
+    secrets.add(auth.basic.password)
+    secrets.add(Buffer.from(`${auth.basic.username}:${auth.basic.password}`).toString('base64'))
+  }
+  const ordered = [...secrets].filter((s) => s.length >= MIN_REDACT_LENGTH).sort((a, b) => b.length - a.length)
+
+  return (text) => ordered.reduce((result, secret) => result.split(secret).join(REDACTED), text)
+}
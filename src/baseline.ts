@@ -0,0 +1,60 @@
+import { readFile } from 'fs/promises'
+import type { BaselineSummary, PageResult, Report, W3CMessage } from './types.js'
+
+function normalizeMessage(message: string): string {
+  return message.trim().replace(/\s+/g, ' ')
+}
+
+export function messageKey(msg: W3CMessage): string {
+  return `${msg.type}::${normalizeMessage(msg.message)}`
+}
+
+export async function loadBaseline(path: string): Promise<Report> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(await readFile(path, 'utf-8'))
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err)
+    throw new Error(`Failed to read baseline ${path}: ${message}`)
+  }
+
+  const pages = parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>).pages : undefined
+  if (!Array.isArray(pages)) {
+    throw new Error(`Baseline ${path} is not a JSON report (run with --format json to create one)`)
+  }
+  return parsed as Report
+}
+
+export function applyBaseline(pages: PageResult[], baseline: Report, file: string): BaselineSummary {
+  const summary: BaselineSummary = { file, newErrors: 0, newWarnings: 0, fixedErrors: 0, fixedWarnings: 0, unchanged: 0 }
+  const previousByUrl = new Map(baseline.pages.map((page) => [page.sourceUrl, page]))
+
+  for (const page of pages) {
+    if (page.status === 'failed') continue
+
+    const remaining = new Map<string, W3CMessage[]>()
+    for (const msg of previousByUrl.get(page.sourceUrl)?.messages ?? []) {
+      const key = messageKey(msg)
+      remaining.set(key, [...(remaining.get(key) ?? []), msg])
+    }
+
+    for (const msg of page.messages) {
+      const matches = remaining.get(messageKey(msg))
+      if (matches && matches.length > 0) {
+        matches.shift()
+        msg.delta = 'unchanged'
+        summary.unchanged++
+      } else {
+        msg.delta = 'new'
+        if (msg.type === 'error') summary.newErrors++
+        if (msg.type === 'warning') summary.newWarnings++
+      }
+    }
+
+    page.fixed = Array.from(remaining.values()).flat().map((msg) => ({ ...msg, delta: 'fixed' as const }))
+    summary.fixedErrors += page.fixed.filter((m) => m.type === 'error').length
+    summary.fixedWarnings += page.fixed.filter((m) => m.type === 'warning').length
+  }
+
+  return summary
+}
@@ -0,0 +1,54 @@
+import { createHash } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import type { W3CMessage } from './types.js'
+
+export const DEFAULT_CACHE_DIR = '.w3cbatch-cache'
+export const DEFAULT_CACHE_MAX_AGE_HOURS = 168
+
+export interface CacheEntry {
+  url: string
+  validatorUrl: string
+  hash: string
+  etag?: string
+  lastModified?: string
+  messages: W3CMessage[]
+  validatedAt: string
+}
+
+export interface PageCache {
+  read(url: string, validatorUrl: string): Promise<CacheEntry | undefined>
+  write(entry: CacheEntry): Promise<void>
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+function entryPath(dir: string, url: string, validatorUrl: string): string {
+  return join(dir, `${hashContent(`${validatorUrl}\n${url}`).slice(0, 32)}.json`)
+}
+
+export function createPageCache(dir: string, maxAgeMs: number): PageCache {
+  let ready: Promise<unknown> | undefined
+
+  return {
+    async read(url, validatorUrl) {
+      let entry: CacheEntry
+      try {
+        entry = JSON.parse(await readFile(entryPath(dir, url, validatorUrl), 'utf-8')) as CacheEntry
+      } catch {
+        return undefined
+      }
+      if (entry.url !== url || entry.validatorUrl !== validatorUrl) return undefined
+      if (Date.now() - Date.parse(entry.validatedAt) > maxAgeMs) return undefined
+      return entry
+    },
+
+    async write(entry) {
+      ready ??= mkdir(dir, { recursive: true })
+      await ready
+      await writeFile(entryPath(dir, entry.url, entry.validatorUrl), JSON.stringify(entry), 'utf-8')
+    },
+  }
+}
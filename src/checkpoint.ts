@@ -0,0 +1,83 @@
+import { appendFile, readFile, rm, writeFile } from 'fs/promises'
+import type { PageResult } from './types.js'
+
+export interface Checkpoint {
+  path: string
+  /** Pages finished by an earlier run, keyed by resolved URL. Failed pages are not included. */
+  completed: Map<string, PageResult>
+  record(result: PageResult): void
+  /** Resolves once every recorded result is on disk. */
+  flush(): Promise<void>
+  remove(): Promise<void>
+}
+
+async function readCheckpoint(path: string): Promise<PageResult[]> {
+  let text: string
+  try {
+    text = await readFile(path, 'utf-8')
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return []
+    const message = err instanceof Error ? err.message : String(err)
+    throw new Error(`Failed to read checkpoint ${path}: ${message}`)
+  }
+
+  const results: PageResult[] = []
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      const result = JSON.parse(line) as PageResult
+      if (typeof result.url === 'string' && Array.isArray(result.messages)) results.push(result)
+    } catch {
+      // A run killed mid-write leaves a truncated last line; that page is simply validated again
+    }
+  }
+  return results
+}
+
+/**
+ * Opens a JSONL checkpoint with one PageResult per line. Without `resume`
+ * the file is started afresh; with it, finished pages from the previous run
+ * are loaded and kept.
+ */
+export async function openCheckpoint(path: string, resume: boolean): Promise<Checkpoint> {
+  const completed = new Map<string, PageResult>()
+  if (resume) {
+    for (const result of await readCheckpoint(path)) {
+      if (result.status === 'failed') completed.delete(result.url)
+      else completed.set(result.url, result)
+    }
+  }
+
+  // Rewriting drops torn lines and failed pages, which are about to be retried
+  const carried = [...completed.values()].map((result) => JSON.stringify(result) + '\n').join('')
+  await writeFile(path, carried, 'utf-8')
+
+  let pending: Promise<void> = Promise.resolve()
+  let writeError: unknown
+
+  return {
+    path,
+    completed,
+
+    record(result) {
+      pending = pending
+        .then(() => appendFile(path, JSON.stringify(result) + '\n', 'utf-8'))
+        .catch((err: unknown) => {
+          writeError ??= err
+        })
+    },
+
+    async flush() {
+      await pending
+      if (writeError !== undefined) {
+        const message = writeError instanceof Error ? writeError.message : String(writeError)
+        throw new Error(`Failed to write checkpoint ${path}: ${message}`)
+      }
+    },
+
+    async remove() {
+      await pending
+      await rm(path, { force: true })
+    },
+  }
+}
@@ -1,162 +1,627 @@
 import { program } from 'commander'
-import ora from 'ora'
-import pLimit from 'p-limit'
-import { writeFile } from 'fs/promises'
-import { extractUrlsFromSitemap } from './sitemap.js'
-import { fetchPageHtml, validateHtml, validateUrl } from './validator.js'
-import { printAllPageDetails, printSummary, printUniqueErrors, spinnerFetchText, spinnerValidateText, spinnerDoneText } from './reporter.js'
+import ora, { type Ora } from 'ora'
+import { appendFile, readFile, stat, writeFile } from 'fs/promises'
+import { resolve } from 'path'
+import { pathToFileURL } from 'url'
+import { DEFAULT_VALIDATOR_URL, checkValidator, getValidatorDefaults } from './validator.js'
+import { DEFAULT_CSS_VALIDATOR_URL } from './css-validator.js'
+import { configureRetries, DEFAULT_RETRY_OPTIONS } from './http.js'
+import { DEFAULT_CACHE_DIR, DEFAULT_CACHE_MAX_AGE_HOURS, createPageCache } from './cache.js'
+import { printAllPageDetails, printCssResults, printDiscovery, printPolicyViolations, printSampling, printSummary, printTopIssues, printWatchChanges, spinnerFetchText, spinnerValidateText, spinnerDoneText } from './reporter.js'
+import { getOutputPath, parseFormats, renderReport } from './report-formats.js'
 import { generateHtmlReport } from './html-report.js'
-import { resolveUrlToBase, getOrigin, sleep, isLocalhost } from './utils.js'
-import type { PageResult, ReportSummary, Report, PageStatus, W3CMessage } from './types.js'
+import { applyBaseline, loadBaseline } from './baseline.js'
+import { loadConfig, type WebhookConfig } from './config.js'
+import { getActiveRules } from './suppressions.js'
+import { DEFAULT_CRAWL_OPTIONS } from './crawler.js'
+import { validateUrlPatterns } from './url-filters.js'
+import { getOrigin } from './utils.js'
+import { openCheckpoint, type Checkpoint } from './checkpoint.js'
+import { DEFAULT_SOURCE_MAX_BYTES, summarizePages, validateSitemap } from './runner.js'
+import { groupIssues } from './issues.js'
+import { DEFAULT_WATCH_INTERVAL_SECONDS, LIVE_REPORT_REFRESH_SECONDS, createPageWatcher, watchForChanges } from './watch.js'
+import { DEFAULT_DIR_SITEMAP } from './static-dir.js'
+import { parseUrlList } from './url-list.js'
+import { FAIL_ON_LEVELS, evaluatePolicy, isDefaultPolicy, type FailOn, type FailurePolicy } from './policy.js'
+import { DEFAULT_HISTORY_FILE, buildTrend, createHistoryStore, toHistoryEntry } from './history.js'
+import { generateTrendReport } from './trend-report.js'
+import { generateMarkdownReport } from './markdown-report.js'
+import { sendWebhooks, type RunOutcome } from './webhooks.js'
+import { createRedactor, hasCredentials, loadCookieJar, parseBasicAuth, parseHeaders, splitUrlCredentials, withSiteAuth, type SiteAuth } from './auth.js'
+import type { Report } from './types.js'
+
+function collect(value: string, previous: string[]): string[] {
+  return previous.concat(value)
+}
 
 program
   .name('w3c_batch')
   .description('W3C_BATCH — Batch validate all pages in a sitemap against the W3C Nu HTML validator')
-  .requiredOption('--sitemap <url>', 'URL of the sitemap.xml to crawl')
-  .option('--base <url>', 'Override the base URL for all pages (default: origin from --sitemap)')
+  .option('--sitemap <url>', 'URL of the sitemap.xml (or .xml.gz) — a bare origin discovers sitemaps from robots.txt')
+  .option('--urls <file>', 'Validate the URLs listed in this file, one per line with # comments, or "-" for stdin; combines with --sitemap and --crawl')
+  .option('--since <date>', 'Only validate sitemap pages with a <lastmod> on or after this date')
+  .option('--crawl <start-url>', 'Discover pages by following same-origin links from this URL')
+  .option('--dir <path>', 'Validate the .html files of a static build directory, POSTed straight from disk')
+  .option('--dir-sitemap [file]', `With --dir, validate the pages listed in this sitemap inside the directory instead of every .html file (default: ${DEFAULT_DIR_SITEMAP})`)
+  .option('--max-depth <n>', `Link depth to follow with --crawl (default: ${DEFAULT_CRAWL_OPTIONS.maxDepth})`)
+  .option('--crawl-limit <n>', `Maximum pages discovered by --crawl (default: ${DEFAULT_CRAWL_OPTIONS.maxPages})`)
+  .option('--crawl-include <pattern>', 'Only follow links matching this URL glob (repeatable)', collect, [] as string[])
+  .option('--crawl-exclude <pattern>', 'Never follow links matching this URL glob (repeatable)', collect, [] as string[])
+  .option('--base <url>', 'Override the base URL for all pages (default: origin from --sitemap, --crawl or the first --urls entry)')
+  .option('--include <pattern>', 'Only validate URLs matching this glob, or regex with a re: prefix (repeatable)', collect, [] as string[])
+  .option('--exclude <pattern>', 'Skip URLs matching this glob, or regex with a re: prefix (repeatable)', collect, [] as string[])
+  .option('--max-pages <n>', 'Validate at most this many pages')
+  .option('--sample <n>', 'Validate only N pages per URL template group, e.g. /products/:slug')
   .option('--output <file>', 'Path to write the HTML report (default: report.html)', 'report.html')
-  .option('--delay <ms>', 'Delay in ms between requests — W3C recommends ≥1000ms (default: 1000)', '1000')
-  .option('--unique', 'Show unique errors summary after validation')
+  .option('--markdown <file>', 'Also write a Markdown summary for pull request comments (appended to $GITHUB_STEP_SUMMARY when set)')
+  .option(
+    '--format <formats>',
+    'Report formats to write: html, json, junit, sarif — repeatable or comma-separated (default: html)',
+    collect,
+    [] as string[]
+  )
+  .option('--delay <ms>', 'Delay in ms between requests — W3C recommends ≥1000ms (default: 1000, 0 when self-hosted)')
+  .option('--concurrency <n>', 'Pages validated in parallel (default: 1, 4 when self-hosted)')
+  .option('--retries <n>', `Retries for failed or throttled requests (default: ${DEFAULT_RETRY_OPTIONS.retries})`)
+  .option('--validator-url <url>', `Nu validator endpoint, e.g. a local vnu.jar instance (default: ${DEFAULT_VALIDATOR_URL})`)
+  .option('--css', 'Also validate linked and inline stylesheets with the W3C CSS validator')
+  .option('--css-validator-url <url>', `CSS validator endpoint (default: ${DEFAULT_CSS_VALIDATOR_URL})`)
+  .option('--embed-source [max-kb]', `Embed each page's HTML in the report with a source viewer, up to max-kb per page (default: ${DEFAULT_SOURCE_MAX_BYTES / 1024})`)
+  .option('--unique', 'Show issues grouped across pages, ranked by how many pages they affect')
+  .option('--fail-on <level>', `Message level that fails the run: ${FAIL_ON_LEVELS.join(', ')} (default: errors)`, 'errors')
+  .option('--max-errors <n>', 'Fail only when the run has more than this many errors')
+  .option('--max-failed-pages <n>', 'Fail only when more than this many pages could not be fetched or validated')
+  .option('--baseline <file>', 'JSON report from a previous run — only new errors fail the run')
+  .option('--no-cache', 'Always re-validate, ignoring cached results for unchanged pages')
+  .option('--cache-dir <dir>', `Directory for cached validation results (default: ${DEFAULT_CACHE_DIR})`, DEFAULT_CACHE_DIR)
+  .option('--cache-max-age <hours>', `Re-validate cached pages older than this (default: ${DEFAULT_CACHE_MAX_AGE_HOURS})`)
+  .option('--config <file>', 'Config file with suppression rules (default: .w3cbatchrc.json if present)')
+  .option('--report-url <url>', 'Report link sent in webhook payloads (default: file:// URL of the HTML report)')
+  .option('--history [file]', `Append this run's summary and issue counts to a history file (default: ${DEFAULT_HISTORY_FILE})`)
+  .option('--trend <file>', 'Write an HTML trend report of the runs recorded in --history')
+  .option('--checkpoint <file>', 'Save each page result to this file as it completes, so an interrupted run can be resumed')
+  .option('--resume', 'Skip pages already validated in the --checkpoint file')
+  .option('--watch', 'Keep running and re-validate pages whose HTML changed, on --watch-dir changes or every --watch-interval seconds')
+  .option('--watch-dir <dir>', 'With --watch, re-check pages when files in this directory change (repeatable; default: --dir)', collect, [] as string[])
+  .option('--watch-interval <seconds>', `With --watch, re-check pages on this interval (default: ${DEFAULT_WATCH_INTERVAL_SECONDS} without a watched directory)`)
+  .option('--live-report', 'With --watch, make the HTML report reload itself as it is rewritten')
+  .option('--header <header>', 'Extra request header for sitemap and page fetches, e.g. "Authorization: Bearer …" (repeatable)', collect, [] as string[])
+  .option('--cookie-jar <file>', 'Netscape cookies.txt file sent with sitemap and page fetches')
+  .option('--auth <user:password>', 'Basic auth for sitemap and page fetches (default: $W3CBATCH_AUTH)')
 
 program.parse()
 
 const options = program.opts<{
-  sitemap: string
+  sitemap?: string
+  urls?: string
+  since?: string
+  crawl?: string
+  dir?: string
+  dirSitemap?: true | string
+  maxDepth?: string
+  crawlLimit?: string
+  crawlInclude: string[]
+  crawlExclude: string[]
   base?: string
+  include: string[]
+  exclude: string[]
+  maxPages?: string
+  sample?: string
   output: string
-  delay: string
+  markdown?: string
+  format: string[]
+  delay?: string
+  concurrency?: string
+  retries?: string
+  validatorUrl?: string
+  css?: boolean
+  cssValidatorUrl?: string
+  embedSource?: true | string
   unique?: boolean
+  failOn: string
+  maxErrors?: string
+  maxFailedPages?: string
+  baseline?: string
+  cache: boolean
+  cacheDir: string
+  cacheMaxAge?: string
+  config?: string
+  reportUrl?: string
+  history?: true | string
+  trend?: string
+  checkpoint?: string
+  resume?: boolean
+  watch?: boolean
+  watchDir: string[]
+  watchInterval?: string
+  liveReport?: boolean
+  header: string[]
+  cookieJar?: string
+  auth?: string
 }>()
 
-async function validatePage(url: string, spinner: ReturnType<typeof ora>): Promise<W3CMessage[]> {
-  if (isLocalhost(url)) {
-    const html = await fetchPageHtml(url)
-    spinner.text = spinnerValidateText(url)
-    return validateHtml(html)
+// Set once the config is loaded, so failures from then on can be reported too
+let webhooks: WebhookConfig[] = []
+let webhookSource = ''
+
+async function notify(outcome: Omit<RunOutcome, 'source'>): Promise<void> {
+  for (const delivery of await sendWebhooks(webhooks, { source: webhookSource, ...outcome })) {
+    const result = delivery.ok ? 'sent' : `failed — ${delivery.error}`
+    console.log(`  Webhook ${delivery.target} (${delivery.event}): ${result}`)
   }
+}
 
+async function readUrlList(file: string): Promise<string[]> {
+  if (file === '-') {
+    if (process.stdin.isTTY) throw new Error('--urls - reads the list from stdin, but nothing is piped in')
+    const chunks: Buffer[] = []
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer)
+    return parseUrlList(Buffer.concat(chunks).toString('utf-8'), 'stdin')
+  }
+  let text: string
   try {
-    spinner.text = spinnerValidateText(url)
-    return await validateUrl(url)
-  } catch {
-    spinner.text = spinnerFetchText(url)
-    const html = await fetchPageHtml(url)
-    spinner.text = spinnerValidateText(url)
-    return validateHtml(html)
+    text = await readFile(file, 'utf-8')
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err)
+    throw new Error(`Failed to read URL list ${file}: ${message}`)
   }
+  return parseUrlList(text, file)
 }
 
 async function main() {
-  const sitemapUrl = options.sitemap
-  const baseUrl = options.base ?? getOrigin(sitemapUrl)
-  const delay = Math.max(0, parseInt(options.delay, 10) || 1000)
-  const outputFile = options.output
+  // user:password@ in a URL becomes basic auth, so the password is never printed or written to a report
+  const sitemap = options.sitemap !== undefined ? splitUrlCredentials(options.sitemap) : undefined
+  const crawl = options.crawl !== undefined ? splitUrlCredentials(options.crawl) : undefined
+  const base = options.base !== undefined ? splitUrlCredentials(options.base) : undefined
+  const sitemapUrl = sitemap?.url
+  const crawlUrl = crawl?.url
+  const dir = options.dir !== undefined ? resolve(options.dir) : undefined
+  const dirSitemap = options.dirSitemap === true ? DEFAULT_DIR_SITEMAP : options.dirSitemap
+  if (!sitemapUrl && !crawlUrl && !options.urls && !dir) {
+    program.error('error: one of --sitemap <url>, --crawl <start-url>, --urls <file> or --dir <path> is required')
+  }
+  if ((sitemapUrl || crawlUrl || options.urls) && dir) {
+    program.error('error: --dir cannot be combined with --sitemap, --crawl or --urls')
+  }
+  if (dirSitemap && !dir) {
+    program.error('error: --dir-sitemap requires --dir')
+  }
+  if (dir && options.since && !dirSitemap) {
+    program.error('error: --since with --dir requires --dir-sitemap')
+  }
+  if (options.resume && !options.checkpoint) {
+    program.error('error: --resume requires --checkpoint <file>')
+  }
+  if (options.trend && !options.history) {
+    program.error('error: --trend requires --history')
+  }
+  if ((options.watchDir.length > 0 || options.watchInterval !== undefined || options.liveReport) && !options.watch) {
+    program.error('error: --watch-dir, --watch-interval and --live-report require --watch')
+  }
+  const watchDirs = options.watchDir.length > 0 ? options.watchDir.map((path) => resolve(path)) : dir ? [dir] : []
+  for (const watchDir of watchDirs) {
+    if (!(await stat(watchDir).catch(() => undefined))?.isDirectory()) {
+      program.error(`error: --watch-dir ${watchDir} is not a directory`)
+    }
+  }
+  const watchIntervalMs = options.watchInterval !== undefined
+    ? Math.max(1, parseFloat(options.watchInterval) || 1) * 1000
+    : watchDirs.length === 0 ? DEFAULT_WATCH_INTERVAL_SECONDS * 1000 : undefined
+  if (!FAIL_ON_LEVELS.includes(options.failOn as FailOn)) {
+    program.error(`error: --fail-on must be one of ${FAIL_ON_LEVELS.join(', ')}`)
+  }
+  let urls: string[] | undefined
+  if (options.urls !== undefined) {
+    try {
+      urls = await readUrlList(options.urls)
+    } catch (err: unknown) {
+      program.error(`error: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    // An empty list is a valid outcome of a deploy diff that touched no pages
+    if (urls.length === 0 && !sitemapUrl && !crawlUrl) {
+      console.log(`  No URLs found in ${options.urls === '-' ? 'stdin' : options.urls}. Exiting.`)
+      process.exit(0)
+    }
+  }
+  const sourceUrl = sitemapUrl ?? crawlUrl ?? urls?.[0]
+  const baseUrl = base?.url ?? (sourceUrl ? getOrigin(sourceUrl) : undefined)
+  // History and webhooks group runs by site origin; a build directory stands in for one
+  const runSource = dir ?? getOrigin(baseUrl!)
+  const history = options.history !== undefined
+    ? createHistoryStore(options.history === true ? DEFAULT_HISTORY_FILE : options.history)
+    : undefined
+
+  let auth: SiteAuth
+  try {
+    const basicAuth = options.auth ?? process.env.W3CBATCH_AUTH
+    auth = {
+      headers: parseHeaders(options.header),
+      cookies: options.cookieJar ? await loadCookieJar(options.cookieJar) : undefined,
+      basic: basicAuth ? parseBasicAuth(basicAuth) : (base ?? sitemap ?? crawl)?.basic,
+    }
+  } catch (err: unknown) {
+    program.error(`error: ${err instanceof Error ? err.message : String(err)}`)
+  }
+  validateUrlPatterns([...options.include, ...options.exclude, ...options.crawlInclude, ...options.crawlExclude])
+  const since = options.since !== undefined ? new Date(options.since) : undefined
+  if (since && Number.isNaN(since.getTime())) {
+    program.error(`error: invalid --since date "${options.since}"`)
+  }
+  const validatorUrl = options.validatorUrl ?? DEFAULT_VALIDATOR_URL
+  const defaults = getValidatorDefaults(validatorUrl)
+  const delay = options.delay !== undefined ? Math.max(0, parseInt(options.delay, 10) || 0) : defaults.delay
+  const concurrency = options.concurrency !== undefined
+    ? Math.max(1, parseInt(options.concurrency, 10) || 1)
+    : defaults.concurrency
+  const formats = parseFormats(options.format)
+  if (options.retries !== undefined) {
+    configureRetries({ retries: Math.max(0, parseInt(options.retries, 10) || 0) })
+  }
+  const cacheMaxAge = options.cacheMaxAge !== undefined
+    ? Math.max(0, parseFloat(options.cacheMaxAge) || 0)
+    : DEFAULT_CACHE_MAX_AGE_HOURS
+  const cache = options.cache ? createPageCache(options.cacheDir, cacheMaxAge * 60 * 60 * 1000) : undefined
+  const outputFiles = formats.map((format) => ({ format, path: getOutputPath(options.output, format) }))
+  const sourceMaxBytes = options.embedSource === true
+    ? DEFAULT_SOURCE_MAX_BYTES
+    : options.embedSource !== undefined
+      ? Math.max(1, parseInt(options.embedSource, 10) || 1) * 1024
+      : undefined
+  const writeReports = async (current: Report) => {
+    for (const { format, path } of outputFiles) {
+      const live = format === 'html' && options.liveReport
+      const content = live ? generateHtmlReport(current, { refreshSeconds: LIVE_REPORT_REFRESH_SECONDS }) : renderReport(current, format)
+      await writeFile(path, content, 'utf-8')
+    }
+  }
 
   console.log()
-  console.log(`  Sitemap:     ${sitemapUrl}`)
-  console.log(`  Base URL:    ${baseUrl}`)
+  if (sitemapUrl) {
+    console.log(`  Sitemap:     ${sitemapUrl}`)
+  }
+  if (since) {
+    console.log(`  Since:       ${since.toISOString()}`)
+  }
+  if (crawlUrl) {
+    console.log(`  Crawl:       ${crawlUrl}`)
+  }
+  if (urls) {
+    console.log(`  URL list:    ${options.urls === '-' ? 'stdin' : options.urls} (${urls.length} URL${urls.length !== 1 ? 's' : ''})`)
+  }
+  if (dir) {
+    console.log(`  Directory:   ${dir}${dirSitemap ? ` (pages from ${dirSitemap})` : ''}`)
+  } else {
+    console.log(`  Base URL:    ${baseUrl}`)
+  }
+  console.log(`  Validator:   ${validatorUrl}`)
+  if (hasCredentials(auth)) {
+    const parts = [
+      ...Object.keys(auth.headers ?? {}),
+      ...(auth.cookies?.length ? [`${auth.cookies.length} cookie${auth.cookies.length !== 1 ? 's' : ''}`] : []),
+      ...(auth.basic ? [`basic (${auth.basic.username})`] : []),
+    ]
+    console.log(`  Auth:        ${parts.join(', ')} — pages are fetched locally`)
+  }
   console.log(`  Delay:       ${delay}ms`)
-  console.log(`  Output:      ${outputFile}`)
+  console.log(`  Concurrency: ${concurrency}`)
+  console.log(`  Output:      ${[...outputFiles.map((o) => o.path), ...(options.markdown ? [options.markdown] : [])].join(', ')}`)
+  console.log(`  Cache:       ${cache ? `${options.cacheDir} (max age ${cacheMaxAge}h)` : 'disabled'}`)
+  if (options.baseline) {
+    console.log(`  Baseline:    ${options.baseline}`)
+  }
+  if (history) {
+    console.log(`  History:     ${history.path}${options.trend ? ` (trend: ${options.trend})` : ''}`)
+  }
+  if (options.checkpoint) {
+    console.log(`  Checkpoint:  ${options.checkpoint}${options.resume ? ' (resuming)' : ''}`)
+  }
   console.log()
 
-  const sitemapSpinner = ora('Fetching sitemap…').start()
-  let rawUrls: string[]
+  const config = await loadConfig(options.config)
+  const suppressionRules = getActiveRules(config.suppressions)
+  const policy: FailurePolicy = {
+    failOn: options.failOn as FailOn,
+    maxErrors: options.maxErrors !== undefined ? Math.max(0, parseInt(options.maxErrors, 10) || 0) : undefined,
+    maxFailedPages: options.maxFailedPages !== undefined ? Math.max(0, parseInt(options.maxFailedPages, 10) || 0) : undefined,
+    budgets: config.budgets,
+  }
+  webhooks = config.webhooks
+  webhookSource = runSource
+  const expiredRules = config.suppressions.length - suppressionRules.length
+  if (config.suppressions.length > 0) {
+    console.log(`  Suppressions: ${suppressionRules.length} active${expiredRules > 0 ? `, ${expiredRules} expired (ignored)` : ''}`)
+  }
+  if (!isDefaultPolicy(policy)) {
+    const limits = [
+      ...(policy.maxErrors !== undefined ? [`max ${policy.maxErrors} error${policy.maxErrors !== 1 ? 's' : ''}`] : []),
+      ...(policy.maxFailedPages !== undefined ? [`max ${policy.maxFailedPages} failed page${policy.maxFailedPages !== 1 ? 's' : ''}`] : []),
+      ...(config.budgets.length > 0 ? [`${config.budgets.length} page budget${config.budgets.length !== 1 ? 's' : ''}`] : []),
+    ]
+    console.log(`  Fail on:     ${policy.failOn}${limits.length > 0 ? ` (${limits.join(', ')})` : ''}`)
+  }
+  if (config.suppressions.length > 0 || !isDefaultPolicy(policy)) {
+    console.log()
+  }
+
+  const baseline = options.baseline
+    ? { file: options.baseline, report: await loadBaseline(options.baseline) }
+    : undefined
+
+  const validatorSpinner = ora('Checking validator…').start()
   try {
-    rawUrls = await extractUrlsFromSitemap(sitemapUrl)
-    sitemapSpinner.succeed(`Found ${rawUrls.length} URL${rawUrls.length !== 1 ? 's' : ''} in sitemap`)
+    await checkValidator(validatorUrl)
+    validatorSpinner.succeed(`Validator ready at ${validatorUrl}`)
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err)
-    sitemapSpinner.fail(`Failed to fetch sitemap: ${message}`)
+    validatorSpinner.fail(message)
+    await notify({ error: message })
     process.exit(1)
   }
 
-  if (rawUrls.length === 0) {
-    console.log('  No URLs found in sitemap. Exiting.')
-    process.exit(0)
+  let checkpoint: Checkpoint | undefined
+  if (options.checkpoint) {
+    checkpoint = await openCheckpoint(options.checkpoint, options.resume ?? false)
+    const saved = checkpoint
+    process.once('SIGINT', () => {
+      console.log()
+      console.log(`  Interrupted — results so far are saved in ${saved.path}. Re-run with --resume to continue.`)
+      saved.flush().catch(() => undefined).finally(() => process.exit(130))
+    })
   }
 
-  const resolvedUrls = rawUrls.map((url) => ({
-    source: url,
-    resolved: resolveUrlToBase(url, baseUrl),
-  }))
-
-  console.log()
-
-  const limit = pLimit(1)
-  const results: PageResult[] = []
+  const run = validateSitemap({
+    sitemap: sitemapUrl,
+    crawl: crawlUrl,
+    urls,
+    dir,
+    dirSitemap,
+    crawlOptions: {
+      maxDepth: options.maxDepth !== undefined ? Math.max(0, parseInt(options.maxDepth, 10) || 0) : DEFAULT_CRAWL_OPTIONS.maxDepth,
+      maxPages: options.crawlLimit !== undefined ? Math.max(1, parseInt(options.crawlLimit, 10) || 1) : DEFAULT_CRAWL_OPTIONS.maxPages,
+      include: options.crawlInclude,
+      exclude: options.crawlExclude,
+    },
+    base: baseUrl,
+    since,
+    include: options.include,
+    exclude: options.exclude,
+    maxPages: options.maxPages !== undefined ? Math.max(1, parseInt(options.maxPages, 10) || 1) : undefined,
+    samplePerGroup: options.sample !== undefined ? Math.max(1, parseInt(options.sample, 10) || 1) : undefined,
+    validatorUrl,
+    delay,
+    concurrency,
+    cache,
+    suppressions: suppressionRules,
+    css: options.css
+      ? {
+          validatorUrl: options.cssValidatorUrl,
+          concurrency: options.concurrency !== undefined ? concurrency : undefined,
+          delay: options.delay !== undefined ? delay : undefined,
+        }
+      : false,
+    sourceMaxBytes,
+    baseline,
+    completed: checkpoint?.completed,
+    auth,
+  })
 
-  const tasks = resolvedUrls.map(({ source, resolved }, index) =>
-    limit(async () => {
-      const spinner = ora({ text: spinnerFetchText(resolved), prefixText: '' }).start()
-      const startTime = Date.now()
-      let result: PageResult
+  // Concurrent spinners overwrite each other's line, so only the final result line is printed
+  const pageSpinners = new Map<number, Ora>()
+  let phaseSpinner: Ora | undefined
 
-      try {
-        const messages = await validatePage(resolved, spinner)
-
-        const duration = Date.now() - startTime
-        const errors = messages.filter((m) => m.type === 'error').length
-        const warnings = messages.filter((m) => m.type === 'warning').length
-        const status: PageStatus = errors > 0 ? 'errors' : warnings > 0 ? 'warnings' : 'clean'
-
-        result = { url: resolved, sourceUrl: source, messages, status, duration }
-      } catch (err: unknown) {
-        const duration = Date.now() - startTime
-        const errorMessage = err instanceof Error ? err.message : String(err)
-        result = { url: resolved, sourceUrl: source, messages: [], status: 'failed', errorMessage, duration }
+  try {
+    for await (const event of run) {
+      switch (event.type) {
+        case 'sitemap_loading':
+          phaseSpinner = ora('Fetching sitemap…').start()
+          break
+        case 'sitemap_loaded': {
+          const modified = since ? ` modified since ${options.since}` : ''
+          phaseSpinner?.succeed(`Found ${event.count} URL${event.count !== 1 ? 's' : ''}${modified} in sitemap`)
+          phaseSpinner = undefined
+          break
+        }
+        case 'dir_scanning':
+          phaseSpinner = ora(`Scanning ${dirSitemap ?? 'directory'}…`).start()
+          break
+        case 'dir_scanned': {
+          const found = dirSitemap ? `in ${dirSitemap}` : `in ${event.dir}`
+          phaseSpinner?.succeed(`Found ${event.count} page${event.count !== 1 ? 's' : ''} ${found}`)
+          phaseSpinner = undefined
+          break
+        }
+        case 'crawl_start':
+          phaseSpinner = ora('Crawling…').start()
+          break
+        case 'crawl_progress':
+          if (phaseSpinner) phaseSpinner.text = `Crawling… ${event.found} page${event.found !== 1 ? 's' : ''} found`
+          break
+        case 'crawl_done': {
+          const limited = event.truncated ? ' (depth or page limit reached)' : ''
+          phaseSpinner?.succeed(`Found ${event.count} page${event.count !== 1 ? 's' : ''} by crawling${limited}`)
+          phaseSpinner = undefined
+          break
+        }
+        case 'sitemap_done':
+          if (event.totalUrls === 0) {
+            console.log('  No URLs found. Exiting.')
+            process.exit(0)
+          }
+          if (event.count < event.totalUrls) {
+            const sampled = event.groups ? ` and sampling (${event.groups.length} template groups)` : ''
+            console.log(`  Selected ${event.count} of ${event.totalUrls} URLs after filters${sampled}`)
+          }
+          if (event.count === 0) {
+            console.log('  No URLs left after filtering. Exiting.')
+            process.exit(0)
+          }
+          if (options.resume) {
+            console.log(`  Resuming: ${event.resumed} of ${event.count} pages already validated`)
+          }
+          console.log()
+          break
+        case 'page_fetching':
+        case 'page_validating': {
+          const text = event.type === 'page_fetching' ? spinnerFetchText(event.url) : spinnerValidateText(event.url)
+          const spinner = pageSpinners.get(event.index)
+          if (spinner) {
+            spinner.text = text
+          } else {
+            const created = ora({ prefixText: '', isEnabled: concurrency > 1 ? false : undefined })
+            pageSpinners.set(event.index, concurrency === 1 ? created.start(text) : created)
+          }
+          break
+        }
+        case 'page_done': {
+          if (event.resumed) break
+          const spinner = pageSpinners.get(event.index) ?? ora({ isEnabled: false })
+          pageSpinners.delete(event.index)
+          const doneText = spinnerDoneText(event.result)
+          if (event.result.status === 'failed' || event.result.status === 'errors') {
+            spinner.fail(doneText)
+          } else if (event.result.status === 'warnings') {
+            spinner.warn(doneText)
+          } else {
+            spinner.succeed(doneText)
+          }
+          checkpoint?.record(event.result)
+          break
+        }
+        case 'css_start':
+          phaseSpinner = ora(`Validating ${event.count} stylesheet${event.count !== 1 ? 's' : ''}…`).start()
+          break
+        case 'css_progress':
+          if (phaseSpinner) phaseSpinner.text = `Validating stylesheets… ${event.checked}/${event.total}`
+          break
+        case 'css_done': {
+          const cssErrors = event.results.filter((r) => r.status === 'errors' || r.status === 'failed').length
+          const cssDone = `Validated ${event.results.length} stylesheet${event.results.length !== 1 ? 's' : ''}`
+          if (cssErrors > 0) {
+            phaseSpinner?.warn(`${cssDone}, ${cssErrors} with errors`)
+          } else {
+            phaseSpinner?.succeed(cssDone)
+          }
+          phaseSpinner = undefined
+          break
+        }
       }
+    }
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err)
+    if (phaseSpinner) {
+      phaseSpinner.fail(message)
+      await notify({ error: message })
+      process.exit(1)
+    }
+    throw err
+  }
 
-      const doneText = spinnerDoneText(result)
-      if (result.status === 'failed' || result.status === 'errors') {
-        spinner.fail(doneText)
-      } else if (result.status === 'warnings') {
-        spinner.warn(doneText)
-      } else {
-        spinner.succeed(doneText)
-      }
+  await checkpoint?.flush()
+  const report = await run.report
+  const { summary } = report
 
-      results[index] = result
+  printAllPageDetails(report.pages)
 
-      if (delay > 0) {
-        await sleep(delay)
-      }
-    })
-  )
+  if (report.discovery) {
+    printDiscovery(report.discovery)
+  }
 
-  await Promise.all(tasks)
+  if (report.sampling) {
+    printSampling(report.sampling)
+  }
 
-  printAllPageDetails(results)
+  if (report.css) {
+    printCssResults(report.css)
+  }
 
   if (options.unique) {
-    printUniqueErrors(results)
+    printTopIssues(report.issues ?? [])
   }
 
-  const summary: ReportSummary = {
-    totalPages: results.length,
-    pagesWithErrors: results.filter((r) => r.status === 'errors').length,
-    pagesWithWarnings: results.filter((r) => r.status === 'warnings').length,
-    pagesClean: results.filter((r) => r.status === 'clean').length,
-    pagesFailed: results.filter((r) => r.status === 'failed').length,
-    totalErrors: results.reduce((sum, r) => sum + r.messages.filter((m) => m.type === 'error').length, 0),
-    totalWarnings: results.reduce((sum, r) => sum + r.messages.filter((m) => m.type === 'warning').length, 0),
-    totalInfos: results.reduce((sum, r) => sum + r.messages.filter((m) => m.type === 'info').length, 0),
-    generatedAt: new Date().toISOString(),
-    sitemapUrl,
+  await writeReports(report)
+
+  const written = outputFiles.map((o) => o.path)
+  const stepSummary = process.env.GITHUB_STEP_SUMMARY
+  if (options.markdown || stepSummary) {
+    const markdown = generateMarkdownReport(report)
+    if (options.markdown) {
+      await writeFile(options.markdown, markdown, 'utf-8')
+      written.push(options.markdown)
+    }
+    if (stepSummary) {
+      // A summary that cannot be written should not fail a run that already has its reports
+      await appendFile(stepSummary, markdown + '\n', 'utf-8').catch((err: unknown) => {
+        console.warn(`  Could not append to GITHUB_STEP_SUMMARY: ${err instanceof Error ? err.message : String(err)}`)
+      })
+    }
+  }
+  if (history) {
+    await history.append(toHistoryEntry(report, runSource))
+    if (options.trend) {
+      await writeFile(options.trend, generateTrendReport(buildTrend(await history.read(runSource))), 'utf-8')
+      written.push(options.trend)
+    }
   }
 
-  const report: Report = { summary, pages: results }
-  const html = generateHtmlReport(report)
-  await writeFile(outputFile, html, 'utf-8')
+  // The reports now hold every result, so the next run starts from scratch
+  await checkpoint?.remove()
 
-  printSummary(summary, outputFile)
+  printSummary(summary, written.join(', '))
+  const violations = evaluatePolicy(report, policy)
+  printPolicyViolations(violations, summary.baseline !== undefined)
 
-  if (summary.pagesWithErrors > 0 || summary.pagesFailed > 0) {
-    process.exit(1)
+  const htmlOutput = outputFiles.find((o) => o.format === 'html')
+  await notify({ report, reportUrl: options.reportUrl ?? (htmlOutput ? pathToFileURL(resolve(htmlOutput.path)).href : undefined) })
+
+  if (options.watch) {
+    // The process stays alive on the watchers; each check rewrites the reports when a page changed
+    const pages = [...report.pages]
+    const urls = pages.map((page) => page.url)
+    const watcher = createPageWatcher({
+      validatorUrl,
+      suppressions: suppressionRules,
+      concurrency,
+      delay,
+      sourceMaxBytes,
+      redact: createRedactor(auth),
+    })
+    await withSiteAuth(auth, urls, () => watcher.prime(pages))
+    const watching = [...watchDirs, ...(watchIntervalMs !== undefined ? [`every ${watchIntervalMs / 1000}s`] : [])]
+    console.log(`  Watching ${watching.join(', ')} — press Ctrl-C to stop`)
+    console.log()
+    watchForChanges(watchDirs, watchIntervalMs, async (reason) => {
+      try {
+        const changes = await withSiteAuth(auth, urls, () => watcher.check(pages))
+        for (const change of changes) pages[change.index] = change.result
+        printWatchChanges(reason, changes, pages.length)
+        if (changes.length === 0) return
+        // Re-validated pages carry no delta yet, so the whole run is compared to the baseline again
+        await writeReports({
+          ...report,
+          summary: {
+            ...summary,
+            ...summarizePages(pages, summary.sitemapUrl),
+            cacheHits: summary.cacheHits !== undefined ? pages.filter((page) => page.cached).length : undefined,
+            baseline: baseline ? applyBaseline(pages, baseline.report, baseline.file) : undefined,
+          },
+          pages: [...pages],
+          issues: groupIssues(pages),
+        })
+      } catch (err: unknown) {
+        console.error(`  Check failed: ${err instanceof Error ? err.message : String(err)}`)
+      }
+    }, (dir, reason) => {
+      console.warn(`  Stopped watching ${dir}: ${reason} — watching again once it exists`)
+    })
+    return
   }
+
+  if (violations.length > 0) process.exit(1)
 }
 
-main().catch((err: unknown) => {
+main().catch(async (err: unknown) => {
   const message = err instanceof Error ? err.message : String(err)
   console.error(`Fatal error: ${message}`)
+  await notify({ error: message }).catch(() => undefined)
   process.exit(1)
 })
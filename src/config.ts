@@ -0,0 +1,168 @@
+import { readFile } from 'fs/promises'
+import { compileUrlPattern } from './utils.js'
+import type { MessageType } from './types.js'
+
+export const DEFAULT_CONFIG_FILE = '.w3cbatchrc.json'
+
+export interface SuppressionRule {
+  message?: string
+  messagePattern?: string
+  type?: MessageType
+  subType?: string
+  url?: string
+  extract?: string
+  expires?: string
+  reason?: string
+}
+
+export type WebhookEvent = 'completed' | 'failed' | 'threshold'
+export type WebhookTemplate = 'generic' | 'slack'
+
+/** A run exceeds the threshold when any of the set counts is above its limit. */
+export interface WebhookThreshold {
+  errors?: number
+  warnings?: number
+  failedPages?: number
+  /** Errors not in the `--baseline` report. */
+  newErrors?: number
+}
+
+export interface WebhookConfig {
+  url: string
+  template?: WebhookTemplate
+  /** Events that trigger this webhook (default: all). */
+  on?: WebhookEvent[]
+  threshold?: WebhookThreshold
+  /** HMAC-SHA256 key for the signature header; `secretEnv` names an environment variable holding it instead. */
+  secret?: string
+  secretEnv?: string
+  headers?: Record<string, string>
+}
+
+/** Messages a single page matching `url` may have before the run fails; the first matching budget applies. */
+export interface PageBudget {
+  url: string
+  errors?: number
+  warnings?: number
+}
+
+export interface Config {
+  suppressions: SuppressionRule[]
+  webhooks: WebhookConfig[]
+  budgets: PageBudget[]
+}
+
+const RULE_MATCHERS = ['message', 'messagePattern', 'type', 'subType', 'url', 'extract'] as const
+const WEBHOOK_EVENTS: WebhookEvent[] = ['completed', 'failed', 'threshold']
+const WEBHOOK_TEMPLATES: WebhookTemplate[] = ['generic', 'slack']
+const THRESHOLD_KEYS = ['errors', 'warnings', 'failedPages', 'newErrors'] as const
+const BUDGET_KEYS = ['errors', 'warnings'] as const
+
+function checkUrlPattern(pattern: unknown, where: string): void {
+  if (typeof pattern !== 'string' || !pattern) throw new Error(`${where} must be a URL pattern`)
+  try {
+    compileUrlPattern(pattern)
+  } catch (err: unknown) {
+    throw new Error(`${where}: ${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
+function validateSuppression(rule: SuppressionRule, index: number): void {
+  const where = `suppressions[${index}]`
+  if (!RULE_MATCHERS.some((key) => rule[key] !== undefined)) {
+    throw new Error(`${where} needs at least one of: ${RULE_MATCHERS.join(', ')}`)
+  }
+  if (rule.type !== undefined && !['error', 'warning', 'info'].includes(rule.type)) {
+    throw new Error(`${where}.type must be error, warning or info`)
+  }
+  if (rule.messagePattern !== undefined) {
+    try {
+      new RegExp(rule.messagePattern)
+    } catch {
+      throw new Error(`${where}.messagePattern is not a valid regular expression`)
+    }
+  }
+  if (rule.url !== undefined) checkUrlPattern(rule.url, `${where}.url`)
+  if (rule.expires !== undefined && Number.isNaN(Date.parse(rule.expires))) {
+    throw new Error(`${where}.expires is not a valid date`)
+  }
+}
+
+function validateWebhook(hook: WebhookConfig, index: number): void {
+  const where = `webhooks[${index}]`
+  if (typeof hook.url !== 'string' || !URL.canParse(hook.url) || !/^https?:$/.test(new URL(hook.url).protocol)) {
+    throw new Error(`${where}.url must be an http(s) URL`)
+  }
+  if (hook.template !== undefined && !WEBHOOK_TEMPLATES.includes(hook.template)) {
+    throw new Error(`${where}.template must be ${WEBHOOK_TEMPLATES.join(' or ')}`)
+  }
+  if (hook.on !== undefined && (!Array.isArray(hook.on) || hook.on.some((event) => !WEBHOOK_EVENTS.includes(event)))) {
+    throw new Error(`${where}.on must be a list of: ${WEBHOOK_EVENTS.join(', ')}`)
+  }
+  for (const key of THRESHOLD_KEYS) {
+    const limit = hook.threshold?.[key]
+    if (limit !== undefined && (typeof limit !== 'number' || limit < 0)) {
+      throw new Error(`${where}.threshold.${key} must be a number ≥ 0`)
+    }
+  }
+  if (hook.secretEnv !== undefined && !process.env[hook.secretEnv]) {
+    throw new Error(`${where}.secretEnv: environment variable ${hook.secretEnv} is not set`)
+  }
+}
+
+function validateBudget(budget: PageBudget, index: number): void {
+  const where = `budgets[${index}]`
+  checkUrlPattern(budget.url, `${where}.url`)
+  if (!BUDGET_KEYS.some((key) => budget[key] !== undefined)) {
+    throw new Error(`${where} needs at least one of: ${BUDGET_KEYS.join(', ')}`)
+  }
+  for (const key of BUDGET_KEYS) {
+    const limit = budget[key]
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+      throw new Error(`${where}.${key} must be a whole number ≥ 0`)
+    }
+  }
+}
+
+export async function loadConfig(path?: string): Promise<Config> {
+  const file = path ?? DEFAULT_CONFIG_FILE
+  let text: string
+  try {
+    text = await readFile(file, 'utf-8')
+  } catch (err: unknown) {
+    if (!path && (err as NodeJS.ErrnoException).code === 'ENOENT') return { suppressions: [], webhooks: [], budgets: [] }
+    const message = err instanceof Error ? err.message : String(err)
+    throw new Error(`Failed to read config ${file}: ${message}`)
+  }
+
+  let raw: Record<string, unknown>
+  try {
+    raw = JSON.parse(text) as Record<string, unknown>
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err)
+    throw new Error(`Invalid JSON in config ${file}: ${message}`)
+  }
+
+  const suppressions = (raw.suppressions ?? []) as SuppressionRule[]
+  if (!Array.isArray(suppressions)) {
+    throw new Error(`Config ${file}: "suppressions" must be an array`)
+  }
+  const webhooks = (raw.webhooks ?? []) as WebhookConfig[]
+  if (!Array.isArray(webhooks)) {
+    throw new Error(`Config ${file}: "webhooks" must be an array`)
+  }
+  const budgets = (raw.budgets ?? []) as PageBudget[]
+  if (!Array.isArray(budgets)) {
+    throw new Error(`Config ${file}: "budgets" must be an array`)
+  }
+  try {
+    suppressions.forEach(validateSuppression)
+    webhooks.forEach(validateWebhook)
+    budgets.forEach(validateBudget)
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err)
+    throw new Error(`Config ${file}: ${message}`)
+  }
+
+  return { suppressions, webhooks, budgets }
+}
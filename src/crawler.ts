@@ -0,0 +1,139 @@
+import { getResponseUrl, request } from './http.js'
+import { loadRobots } from './robots.js'
+import { matchesUrlPattern } from './utils.js'
+import type { DiscoverySummary } from './types.js'
+
+export interface CrawlOptions {
+  maxDepth: number
+  maxPages: number
+  include: string[]
+  exclude: string[]
+}
+
+export interface CrawlResult {
+  urls: string[]
+  linkedUrls: Set<string>
+  truncated: boolean
+}
+
+export const DEFAULT_CRAWL_OPTIONS: CrawlOptions = { maxDepth: 3, maxPages: 500, include: [], exclude: [] }
+
+const LINK_PATTERN = /<a\s[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi
+const BASE_PATTERN = /<base\s[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i
+
+export function normalizeUrl(url: string): string {
+  const parsed = new URL(url)
+  parsed.hash = ''
+  return parsed.toString()
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&amp;/g, '&').replace(/&#0*38;/g, '&').replace(/&quot;/g, '"')
+}
+
+export function extractLinks(html: string, pageUrl: string): string[] {
+  const baseMatch = BASE_PATTERN.exec(html)
+  let baseUrl = pageUrl
+  if (baseMatch) {
+    try {
+      baseUrl = new URL(decodeEntities(baseMatch[1] ?? baseMatch[2] ?? baseMatch[3]), pageUrl).toString()
+    } catch {
+      // Ignore a malformed <base>, links then resolve against the page itself
+    }
+  }
+
+  const links: string[] = []
+  for (const match of html.matchAll(LINK_PATTERN)) {
+    const href = decodeEntities((match[1] ?? match[2] ?? match[3]).trim())
+    if (!href || href.startsWith('#')) continue
+    try {
+      const resolved = new URL(href, baseUrl)
+      if (resolved.protocol === 'http:' || resolved.protocol === 'https:') links.push(normalizeUrl(resolved.toString()))
+    } catch {
+      continue
+    }
+  }
+  return links
+}
+
+function isWanted(url: string, options: CrawlOptions): boolean {
+  if (options.exclude.some((pattern) => matchesUrlPattern(url, pattern))) return false
+  if (options.include.length === 0) return true
+  return options.include.some((pattern) => matchesUrlPattern(url, pattern))
+}
+
+export async function crawlSite(
+  startUrl: string,
+  options: CrawlOptions = DEFAULT_CRAWL_OPTIONS,
+  onPage: (url: string, found: number) => void = () => {}
+): Promise<CrawlResult> {
+  const start = normalizeUrl(startUrl)
+  const origin = new URL(start).origin
+  const robots = await loadRobots(origin)
+
+  const queue: Array<{ url: string; depth: number }> = [{ url: start, depth: 0 }]
+  const seen = new Set([start])
+  const linkedUrls = new Set<string>()
+  const urls: string[] = []
+  let truncated = false
+
+  while (queue.length > 0) {
+    const { url, depth } = queue.shift()!
+    if (!robots.isAllowed(url)) continue
+    if (urls.length >= options.maxPages) {
+      truncated = true
+      break
+    }
+
+    let html: string
+    // Relative links on a redirected page are relative to where it ended up
+    let pageUrl = url
+    try {
+      const { response } = await request<string>({ method: 'GET', url, responseType: 'text', timeout: 30000 })
+      const contentType = String(response.headers['content-type'] ?? '')
+      if (contentType && !contentType.includes('html')) continue
+      html = response.data
+      pageUrl = getResponseUrl(response, url)
+    } catch {
+      // Broken links still go through validation so they show up as failed pages
+      urls.push(url)
+      onPage(url, urls.length)
+      continue
+    }
+
+    urls.push(url)
+    onPage(url, urls.length)
+
+    for (const link of extractLinks(html, pageUrl)) {
+      if (new URL(link).origin !== origin) continue
+      linkedUrls.add(link)
+      if (seen.has(link) || !isWanted(link, options)) continue
+      seen.add(link)
+      if (depth + 1 > options.maxDepth) {
+        truncated = true
+        continue
+      }
+      queue.push({ url: link, depth: depth + 1 })
+    }
+  }
+
+  return { urls, linkedUrls, truncated }
+}
+
+export function compareWithSitemap(
+  sitemapUrls: string[],
+  crawl: CrawlResult,
+  resolve: (url: string) => string
+): DiscoverySummary {
+  const inSitemap = new Set(sitemapUrls.map((url) => normalizeUrl(resolve(url))))
+  const crawled = crawl.urls.map((url) => normalizeUrl(resolve(url)))
+  const linked = new Set([...crawl.linkedUrls].map((url) => normalizeUrl(resolve(url))))
+  if (crawled.length > 0) linked.add(crawled[0])
+
+  return {
+    crawledPages: crawl.urls.length,
+    truncated: crawl.truncated,
+    notInSitemap: crawled.filter((url) => !inSitemap.has(url)),
+    unlinked: [...inSitemap].filter((url) => !linked.has(url)),
+  }
+}
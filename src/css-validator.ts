@@ -0,0 +1,150 @@
+import { readFile } from 'fs/promises'
+import { fileURLToPath } from 'url'
+import { request } from './http.js'
+import { hashContent } from './cache.js'
+import { isFileUrl, isLocalhost } from './utils.js'
+import { hasSiteAuth } from './auth.js'
+import type { CssResult, PageStatus, W3CMessage } from './types.js'
+
+export const DEFAULT_CSS_VALIDATOR_URL = 'https://jigsaw.w3.org/css-validator/validator'
+const CSS_PROFILE = 'css3svg'
+
+export interface Stylesheet {
+  id: string
+  url?: string
+  text?: string
+}
+
+interface CssApiMessage {
+  line?: number
+  context?: string
+  type?: string
+  message?: string
+}
+
+interface CssApiResponse {
+  cssvalidation?: {
+    errors?: CssApiMessage[]
+    warnings?: CssApiMessage[]
+  }
+}
+
+const LINK_TAG = /<link\b[^>]*>/gi
+const STYLE_BLOCK = /<style\b[^>]*>([\s\S]*?)<\/style>/gi
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i').exec(tag)
+  return match ? (match[1] ?? match[2] ?? match[3]).replace(/&amp;/g, '&') : undefined
+}
+
+/**
+ * Resolves a stylesheet link. Pages of a static build are file: URLs, so with
+ * `siteRoot` (the build directory's file: URL) root-relative links resolve
+ * inside the build, and protocol-relative ones to https.
+ */
+function resolveHref(href: string, pageUrl: string, siteRoot: string | undefined): URL {
+  if (!siteRoot || !isFileUrl(pageUrl)) return new URL(href, pageUrl)
+  if (href.startsWith('//')) return new URL(`https:${href}`)
+  if (href.startsWith('/')) return new URL(`.${href}`, siteRoot)
+  return new URL(href, pageUrl)
+}
+
+export function extractStylesheets(html: string, pageUrl: string, siteRoot?: string): Stylesheet[] {
+  const sheets: Stylesheet[] = []
+
+  for (const [tag] of html.matchAll(LINK_TAG)) {
+    const rel = getAttribute(tag, 'rel')?.toLowerCase().split(/\s+/) ?? []
+    const href = getAttribute(tag, 'href')
+    if (!rel.includes('stylesheet') || rel.includes('alternate') || !href) continue
+    try {
+      const url = resolveHref(href, pageUrl, siteRoot)
+      // Files are only read from inside the build, never from elsewhere on disk
+      const local = url.protocol === 'file:' && siteRoot !== undefined && url.href.startsWith(siteRoot)
+      if (url.protocol !== 'http:' && url.protocol !== 'https:' && !local) continue
+      url.hash = ''
+      sheets.push({ id: url.toString(), url: url.toString() })
+    } catch {
+      continue
+    }
+  }
+
+  for (const [, text] of html.matchAll(STYLE_BLOCK)) {
+    if (!text.trim()) continue
+    sheets.push({ id: `inline:${hashContent(text.trim()).slice(0, 12)}`, text })
+  }
+
+  return sheets
+}
+
+function mapCssMessages(messages: CssApiMessage[] | undefined, type: 'error' | 'warning'): W3CMessage[] {
+  return (messages ?? []).map((msg) => ({
+    type,
+    message: (msg.message ?? '').trim(),
+    extract: msg.context?.trim() || undefined,
+    lastLine: msg.line,
+    subType: msg.type,
+  }))
+}
+
+async function postCss(text: string, validatorUrl: string): Promise<CssApiResponse> {
+  const form = new FormData()
+  form.append('text', text)
+  form.append('output', 'json')
+  form.append('profile', CSS_PROFILE)
+  const { response } = await request<CssApiResponse>({ method: 'POST', url: validatorUrl, data: form, timeout: 60000 })
+  return response.data
+}
+
+async function checkCss(sheet: Stylesheet, validatorUrl: string): Promise<CssApiResponse> {
+  if (sheet.text !== undefined) return postCss(sheet.text, validatorUrl)
+
+  const url = sheet.url!
+  if (isFileUrl(url)) return postCss(await readFile(fileURLToPath(url), 'utf-8'), validatorUrl)
+  if (isLocalhost(url) || hasSiteAuth(url)) {
+    const { response } = await request<string>({ method: 'GET', url, responseType: 'text', timeout: 30000 })
+    return postCss(response.data, validatorUrl)
+  }
+
+  const endpoint = new URL(validatorUrl)
+  endpoint.searchParams.set('uri', url)
+  endpoint.searchParams.set('output', 'json')
+  endpoint.searchParams.set('profile', CSS_PROFILE)
+  const { response } = await request<CssApiResponse>({ method: 'GET', url: endpoint.toString(), timeout: 60000 })
+  return response.data
+}
+
+export async function validateStylesheet(sheet: Stylesheet, pages: string[], validatorUrl: string): Promise<CssResult> {
+  const base = { id: sheet.id, url: sheet.url, inline: sheet.text !== undefined, pages }
+  try {
+    const data = await checkCss(sheet, validatorUrl)
+    if (!data.cssvalidation) throw new Error('CSS validator did not answer with JSON output')
+    const messages = [
+      ...mapCssMessages(data.cssvalidation.errors, 'error'),
+      ...mapCssMessages(data.cssvalidation.warnings, 'warning'),
+    ]
+    const errors = messages.filter((m) => m.type === 'error').length
+    const status: PageStatus = errors > 0 ? 'errors' : messages.length > 0 ? 'warnings' : 'clean'
+    return { ...base, messages, status }
+  } catch (err: unknown) {
+    const errorMessage = err instanceof Error ? err.message : String(err)
+    return { ...base, messages: [], status: 'failed', errorMessage }
+  }
+}
+
+export function collectStylesheets(
+  pages: Array<{ url: string; html: string }>,
+  siteRoot?: string
+): Array<{ sheet: Stylesheet; pages: string[] }> {
+  const byId = new Map<string, { sheet: Stylesheet; pages: string[] }>()
+  for (const page of pages) {
+    for (const sheet of extractStylesheets(page.html, page.url, siteRoot)) {
+      const entry = byId.get(sheet.id)
+      if (entry) {
+        if (!entry.pages.includes(page.url)) entry.pages.push(page.url)
+      } else {
+        byId.set(sheet.id, { sheet, pages: [page.url] })
+      }
+    }
+  }
+  return Array.from(byId.values())
+}
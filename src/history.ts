@@ -0,0 +1,209 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises'
+import { dirname } from 'path'
+import { groupIssues } from './issues.js'
+import type { MessageType, Report, ReportSummary } from './types.js'
+
+export const DEFAULT_HISTORY_FILE = '.w3cbatch-history.jsonl'
+export const DEFAULT_TREND_RUNS = 30
+const TOP_GROWN = 10
+
+export interface IssueCount {
+  type: MessageType
+  template: string
+  pages: number
+  occurrences: number
+}
+
+/** One line of the history file: what a single run found, without the messages themselves. */
+export interface HistoryEntry {
+  generatedAt: string
+  /** Origin of the validated site; trends are drawn per source. */
+  source: string
+  summary: ReportSummary
+  issues: Record<string, IssueCount>
+  /** Error count per page, keyed by sitemap URL. Failed pages are left out. */
+  pages: Record<string, number>
+}
+
+export interface TrendRun {
+  generatedAt: string
+  totalPages: number
+  pagesWithErrors: number
+  pagesFailed: number
+  totalErrors: number
+  totalWarnings: number
+  /** Pages with errors that had none in the previous run. */
+  regressed: number
+  /** Pages without errors that had some in the previous run. */
+  fixed: number
+}
+
+export interface IssueGrowth extends IssueCount {
+  key: string
+  /** Pages affected in the first run of the trend; 0 when the issue is new. */
+  previousPages: number
+  previousOccurrences: number
+}
+
+export interface Trend {
+  source: string
+  runs: TrendRun[]
+  /** Issues ranked by how many more pages they reach in the latest run than in the first. */
+  grown: IssueGrowth[]
+}
+
+export interface HistoryStoreOptions {
+  /** Keeps only this many of the latest runs per source, dropping older lines after each append. */
+  maxRunsPerSource?: number
+}
+
+export interface HistoryStore {
+  path: string
+  append(entry: HistoryEntry): Promise<void>
+  read(source?: string): Promise<HistoryEntry[]>
+}
+
+export function toHistoryEntry(report: Report, source: string): HistoryEntry {
+  const issues: Record<string, IssueCount> = {}
+  for (const { key, type, template, pages, occurrences } of report.issues ?? groupIssues(report.pages)) {
+    issues[key] = { type, template, pages, occurrences }
+  }
+
+  const pages: Record<string, number> = {}
+  for (const page of report.pages) {
+    if (page.status === 'failed') continue
+    pages[page.sourceUrl] = page.messages.filter((m) => m.type === 'error').length
+  }
+
+  return { generatedAt: report.summary.generatedAt, source, summary: report.summary, issues, pages }
+}
+
+async function readEntries(path: string): Promise<HistoryEntry[]> {
+  let text: string
+  try {
+    text = await readFile(path, 'utf-8')
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return []
+    const message = err instanceof Error ? err.message : String(err)
+    throw new Error(`Failed to read history ${path}: ${message}`)
+  }
+
+  const entries: HistoryEntry[] = []
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      const entry = JSON.parse(line) as HistoryEntry
+      if (entry.summary && entry.issues && entry.pages) entries.push(entry)
+    } catch {
+      // A run killed mid-append leaves a torn line; the other runs are still usable
+    }
+  }
+  return entries
+}
+
+function byDate(a: HistoryEntry, b: HistoryEntry): number {
+  return a.generatedAt.localeCompare(b.generatedAt)
+}
+
+/** Drops all but the latest `maxRuns` entries of each source, keeping the rest in file order. */
+function keepLatestRuns(entries: HistoryEntry[], maxRuns: number): HistoryEntry[] {
+  const bySource = new Map<string, HistoryEntry[]>()
+  for (const entry of entries) bySource.set(entry.source, [...(bySource.get(entry.source) ?? []), entry])
+
+  const dropped = new Set<HistoryEntry>()
+  for (const runs of bySource.values()) {
+    runs.sort(byDate).slice(0, Math.max(0, runs.length - maxRuns)).forEach((entry) => dropped.add(entry))
+  }
+  return entries.filter((entry) => !dropped.has(entry))
+}
+
+async function pruneHistory(path: string, maxRuns: number): Promise<void> {
+  const entries = await readEntries(path)
+  const kept = keepLatestRuns(entries, maxRuns)
+  if (kept.length === entries.length) return
+  // Renamed into place, so a crash mid-write never loses the runs that are kept
+  const temp = `${path}.tmp`
+  await writeFile(temp, kept.map((entry) => JSON.stringify(entry) + '\n').join(''), 'utf-8')
+  await rename(temp, path)
+}
+
+/**
+ * Opens a JSONL history file with one HistoryEntry per run. Appends are
+ * serialized, so concurrent runs in one process never interleave lines.
+ */
+export function createHistoryStore(path: string, options: HistoryStoreOptions = {}): HistoryStore {
+  let pending: Promise<unknown> = Promise.resolve()
+  const { maxRunsPerSource } = options
+
+  return {
+    path,
+
+    append(entry) {
+      const write = pending.then(async () => {
+        await mkdir(dirname(path), { recursive: true })
+        await appendFile(path, JSON.stringify(entry) + '\n', 'utf-8')
+        if (maxRunsPerSource) await pruneHistory(path, maxRunsPerSource)
+      })
+      pending = write.catch(() => undefined)
+      return write.catch((err: unknown) => {
+        const message = err instanceof Error ? err.message : String(err)
+        throw new Error(`Failed to write history ${path}: ${message}`)
+      })
+    },
+
+    async read(source) {
+      await pending
+      return (await readEntries(path))
+        .filter((entry) => source === undefined || entry.source === source)
+        .sort(byDate)
+    },
+  }
+}
+
+function countChanges(previous: HistoryEntry | undefined, current: HistoryEntry): { regressed: number; fixed: number } {
+  let regressed = 0
+  let fixed = 0
+  if (!previous) return { regressed, fixed }
+  for (const [url, errors] of Object.entries(current.pages)) {
+    const before = previous.pages[url]
+    if (before === undefined) continue
+    if (before === 0 && errors > 0) regressed++
+    if (before > 0 && errors === 0) fixed++
+  }
+  return { regressed, fixed }
+}
+
+/** Builds the trend over the last `maxRuns` entries, oldest first. Entries must share one source. */
+export function buildTrend(entries: HistoryEntry[], maxRuns = DEFAULT_TREND_RUNS): Trend {
+  const window = entries.slice(-maxRuns)
+  const runs = window.map((entry, i): TrendRun => ({
+    generatedAt: entry.generatedAt,
+    totalPages: entry.summary.totalPages,
+    pagesWithErrors: entry.summary.pagesWithErrors,
+    pagesFailed: entry.summary.pagesFailed,
+    totalErrors: entry.summary.totalErrors,
+    totalWarnings: entry.summary.totalWarnings,
+    ...countChanges(window[i - 1], entry),
+  }))
+
+  const first = window[0]
+  const latest = window[window.length - 1]
+  const grown: IssueGrowth[] = []
+  if (first && latest && first !== latest) {
+    for (const [key, issue] of Object.entries(latest.issues)) {
+      const before = first.issues[key]
+      const previousPages = before?.pages ?? 0
+      const previousOccurrences = before?.occurrences ?? 0
+      if (issue.pages > previousPages || (issue.pages === previousPages && issue.occurrences > previousOccurrences)) {
+        grown.push({ key, ...issue, previousPages, previousOccurrences })
+      }
+    }
+    grown.sort((a, b) =>
+      (b.pages - b.previousPages) - (a.pages - a.previousPages) ||
+      (b.occurrences - b.previousOccurrences) - (a.occurrences - a.previousOccurrences) ||
+      a.template.localeCompare(b.template)
+    )
+  }
+
+  return { source: latest?.source ?? '', runs, grown: grown.slice(0, TOP_GROWN) }
+}
@@ -1,4 +1,19 @@
-import type { Report, PageResult, W3CMessage } from './types.js'
+import { isFileUrl } from './utils.js'
+import type { CssResult, DiscoverySummary, IssueGroup, MessageType, Report, PageResult, SamplingSummary, W3CMessage } from './types.js'
+
+interface SourceLink {
+  /** Id prefix of the page's source lines, completed with the line number. */
+  anchor: string
+  lines: number
+}
+
+interface SourceRange {
+  type: MessageType
+  start: number
+  end: number
+}
+
+const SOURCE_SEVERITY: Record<MessageType, number> = { error: 2, warning: 1, info: 0 }
 
 function escapeHtml(str: string): string {
   return str
@@ -25,40 +40,118 @@ function getStatusBadge(result: PageResult): string {
   return '<span class="badge badge-clean">✓</span>'
 }
 
-function getMessageIcon(msg: W3CMessage): string {
+function getMessageIcon(msg: Pick<W3CMessage, 'type' | 'delta'>): string {
+  if (msg.delta === 'fixed') return '✓'
   if (msg.type === 'error') return '✗'
   if (msg.type === 'warning') return '⚠'
   return 'ℹ'
 }
 
-function renderMessage(msg: W3CMessage): string {
+function renderMessage(msg: W3CMessage, source?: SourceLink): string {
   const icon = getMessageIcon(msg)
   let location = ''
   if (msg.lastLine !== undefined) {
     const line = msg.firstLine ?? msg.lastLine
     const col = msg.firstColumn !== undefined ? `:${msg.firstColumn}` : ''
-    location = `<span class="msg-location">line ${line}${col}</span>`
+    // Fixed messages point into the baseline's version of the page
+    location = source && msg.delta !== 'fixed' && line <= source.lines
+      ? `<a class="msg-location src-link" href="#${source.anchor}${line}" data-first="${line}" data-last="${msg.lastLine}">line ${line}${col}</a>`
+      : `<span class="msg-location">line ${line}${col}</span>`
   }
 
   const extract = msg.extract
     ? `<pre class="msg-extract">${escapeHtml(msg.extract)}</pre>`
     : ''
 
+  const reason = msg.suppressedBy
+    ? `<span class="msg-reason">Suppressed: ${escapeHtml(msg.suppressedBy)}</span>`
+    : ''
+
+  const delta = msg.delta === 'new' || msg.delta === 'fixed'
+    ? `<span class="msg-delta delta-${msg.delta}">${msg.delta}</span>`
+    : ''
+
   return `
-    <div class="message message-${msg.type}">
+    <div class="message message-${msg.type}${msg.delta === 'fixed' ? ' message-fixed' : ''}">
       <span class="msg-icon">${icon}</span>
       <div class="msg-content">
         <span class="msg-text">${escapeHtml(msg.message)}</span>
+        ${delta}
         ${location}
+        ${reason}
         ${extract}
       </div>
     </div>`
 }
 
+function highlightLine(text: string, ranges: SourceRange[]): string {
+  const cuts = new Set([0, text.length])
+  for (const range of ranges) {
+    cuts.add(Math.min(range.start, text.length))
+    cuts.add(Math.min(range.end, text.length))
+  }
+  const points = [...cuts].sort((a, b) => a - b)
+
+  let html = ''
+  for (let i = 0; i < points.length - 1; i++) {
+    const [from, to] = [points[i], points[i + 1]]
+    const segment = escapeHtml(text.slice(from, to))
+    const covering = ranges.filter((r) => r.start <= from && r.end >= to)
+    if (covering.length === 0) {
+      html += segment
+      continue
+    }
+    const worst = covering.reduce((a, b) => (SOURCE_SEVERITY[b.type] > SOURCE_SEVERITY[a.type] ? b : a))
+    html += `<mark class="src-${worst.type}">${segment}</mark>`
+  }
+  return html
+}
+
+/**
+ * Numbered page source with each message's firstColumn–lastColumn range
+ * marked. Line ids are `${anchor}${line}` so message locations can link in.
+ */
+function renderSource(result: PageResult, anchor: string, lines: string[]): string {
+  const ranges = new Map<number, SourceRange[]>()
+  for (const msg of result.messages) {
+    if (msg.lastLine === undefined) continue
+    const firstLine = msg.firstLine ?? msg.lastLine
+    for (let line = firstLine; line <= Math.min(msg.lastLine, lines.length); line++) {
+      const start = line === firstLine && msg.firstColumn !== undefined ? msg.firstColumn - 1 : 0
+      const end = line === msg.lastLine && msg.lastColumn !== undefined ? msg.lastColumn : lines[line - 1].length
+      const list = ranges.get(line) ?? []
+      list.push({ type: msg.type, start, end })
+      ranges.set(line, list)
+    }
+  }
+
+  const body = lines.map((text, i) => {
+    const line = i + 1
+    const lineRanges = ranges.get(line)
+    const worst = lineRanges?.reduce((a, b) => (SOURCE_SEVERITY[b.type] > SOURCE_SEVERITY[a.type] ? b : a))
+    const cls = worst ? ` src-has-${worst.type}` : ''
+    const code = lineRanges ? highlightLine(text, lineRanges) : escapeHtml(text)
+    return `<span class="src-line${cls}" id="${anchor}${line}"><span class="src-ln">${line}</span>${code}</span>`
+  }).join('')
+
+  const note = result.sourceTruncated ? ', truncated at the size limit' : ''
+  return `
+        <details class="source-viewer">
+          <summary>Page source (${lines.length} line${lines.length !== 1 ? 's' : ''}${note})</summary>
+          <pre class="src-code">${body}</pre>
+        </details>`
+}
+
 function renderPage(result: PageResult, index: number): string {
   const errors = result.messages.filter((m) => m.type === 'error').length
   const warnings = result.messages.filter((m) => m.type === 'warning').length
   const infos = result.messages.filter((m) => m.type === 'info').length
+  const fixed = result.fixed ?? []
+  const added = result.messages.filter((m) => m.delta === 'new').length
+
+  const deltaHtml = result.fixed !== undefined && (added > 0 || fixed.length > 0)
+    ? `<span class="stat stat-new">+${added} new</span><span class="stat stat-fixed">-${fixed.length} fixed</span>`
+    : ''
 
   const statsHtml = result.status === 'failed'
     ? `<span class="stat stat-error">Failed: ${escapeHtml(result.errorMessage ?? 'Unknown error')}</span>`
@@ -67,11 +160,34 @@ function renderPage(result: PageResult, index: number): string {
         warnings > 0 ? `<span class="stat stat-warning">${warnings} warning${warnings !== 1 ? 's' : ''}</span>` : '',
         infos > 0 ? `<span class="stat stat-info">${infos} info</span>` : '',
         result.status === 'clean' ? '<span class="stat stat-clean">✓ Valid</span>' : '',
+        deltaHtml,
       ].filter(Boolean).join('')
 
+  const sourceLines = result.source !== undefined ? result.source.split(/\r\n?|\n/) : undefined
+  const sourceLink = sourceLines ? { anchor: `page-${index + 1}-L`, lines: sourceLines.length } : undefined
+
   const messagesHtml = result.status === 'failed'
     ? ''
-    : result.messages.map(renderMessage).join('')
+    : [...result.messages, ...fixed].map((msg) => renderMessage(msg, sourceLink)).join('')
+
+  const notes = [
+    result.attempts !== undefined && result.attempts > 1
+      ? `${result.status === 'failed' ? 'Gave up' : 'Succeeded'} after ${result.attempts} attempts.`
+      : '',
+    result.fallbackReason ? `Validated from fetched HTML: ${escapeHtml(result.fallbackReason)}` : '',
+  ].filter(Boolean)
+  const notesHtml = notes.length > 0 ? `<p class="page-note">${notes.join(' ')}</p>` : ''
+
+  const suppressed = result.suppressed ?? []
+  const suppressedHtml = suppressed.length > 0
+    ? `
+        <details class="suppressed">
+          <summary>${suppressed.length} suppressed message${suppressed.length !== 1 ? 's' : ''}</summary>
+          ${suppressed.map((msg) => renderMessage(msg, sourceLink)).join('')}
+        </details>`
+    : ''
+
+  const sourceHtml = sourceLines && sourceLink ? renderSource(result, sourceLink.anchor, sourceLines) : ''
 
   const dataStatus = result.status
 
@@ -80,11 +196,16 @@ function renderPage(result: PageResult, index: number): string {
     <details ${result.status !== 'clean' ? 'open' : ''}>
       <summary class="page-summary page-${result.status}">
         <span class="page-index">#${index + 1}</span>
-        <span class="page-url">${escapeHtml(result.url)}</span>
+        ${isFileUrl(result.url)
+          ? `<a class="page-url" href="${escapeHtml(result.url)}" title="${escapeHtml(result.url)}">${escapeHtml(result.sourceUrl)}</a>`
+          : `<span class="page-url">${escapeHtml(result.url)}</span>`}
         <span class="page-stats">${statsHtml}</span>
       </summary>
       <div class="page-messages">
+        ${notesHtml}
         ${messagesHtml || '<p class="no-issues">No issues found.</p>'}
+        ${suppressedHtml}
+        ${sourceHtml}
       </div>
     </details>
   </section>`
@@ -92,7 +213,8 @@ function renderPage(result: PageResult, index: number): string {
 
 function renderSidebarItem(result: PageResult, index: number): string {
   const badge = getStatusBadge(result)
-  const shortUrl = result.url.replace(/^https?:\/\/[^/]+/, '') || '/'
+  // Directory pages are listed by their path in the build
+  const shortUrl = isFileUrl(result.url) ? result.sourceUrl : result.url.replace(/^https?:\/\/[^/]+/, '') || '/'
   const urlDisplay = shortUrl.length > 40 ? shortUrl.slice(0, 37) + '...' : shortUrl
 
   return `
@@ -103,15 +225,150 @@ function renderSidebarItem(result: PageResult, index: number): string {
     </a>`
 }
 
-export function generateHtmlReport(report: Report): string {
+function renderUrlList(title: string, urls: string[]): string {
+  if (urls.length === 0) return ''
+  return `
+      <details class="discovery-list">
+        <summary>${escapeHtml(title)} (${urls.length})</summary>
+        <ul>${urls.map((url) => `<li>${escapeHtml(url)}</li>`).join('')}</ul>
+      </details>`
+}
+
+function renderDiscovery(discovery: DiscoverySummary | undefined): string {
+  if (!discovery) return ''
+  const agree = discovery.notInSitemap.length === 0 && discovery.unlinked.length === 0
+  return `
+  <section class="discovery">
+    <h2>Discovery</h2>
+    <p>${discovery.crawledPages} pages crawled${discovery.truncated ? ' — depth or page limit reached, the crawl is incomplete' : ''}.</p>
+    ${agree ? '<p class="no-issues">Sitemap and crawled links agree.</p>' : ''}
+    ${renderUrlList('Crawled pages missing from the sitemap', discovery.notInSitemap)}
+    ${renderUrlList(
+      discovery.truncated
+        ? 'Sitemap URLs no crawled page links to — incomplete, they may be linked from pages not visited'
+        : 'Sitemap URLs no crawled page links to',
+      discovery.unlinked
+    )}
+  </section>`
+}
+
+function renderStylesheet(result: CssResult, pageIndex: Map<string, number>): string {
+  const errors = result.messages.filter((m) => m.type === 'error').length
+  const warnings = result.messages.filter((m) => m.type === 'warning').length
+  const label = result.url ?? `Inline <style> ${result.id.replace('inline:', '#')}`
+  const stats = result.status === 'failed'
+    ? `<span class="stat stat-error">Failed: ${escapeHtml(result.errorMessage ?? 'Unknown error')}</span>`
+    : [
+        errors > 0 ? `<span class="stat stat-error">${errors} error${errors !== 1 ? 's' : ''}</span>` : '',
+        warnings > 0 ? `<span class="stat stat-warning">${warnings} warning${warnings !== 1 ? 's' : ''}</span>` : '',
+        result.status === 'clean' ? '<span class="stat stat-clean">✓ Valid</span>' : '',
+      ].filter(Boolean).join('')
+  const pages = result.pages.map((url) => {
+    const index = pageIndex.get(url)
+    const link = index !== undefined ? `#page-${index + 1}` : escapeHtml(url)
+    return `<a href="${link}">${escapeHtml(url)}</a>`
+  }).join('')
+
+  return `
+    <details class="stylesheet" ${result.status !== 'clean' ? 'open' : ''}>
+      <summary class="page-summary page-${result.status}">
+        <span class="page-url">${escapeHtml(label)}</span>
+        <span class="page-stats">${stats}</span>
+      </summary>
+      <div class="page-messages">
+        <div class="css-pages">Used by ${result.pages.length} page${result.pages.length !== 1 ? 's' : ''}: ${pages}</div>
+        ${result.messages.map((msg) => renderMessage(msg)).join('') || '<p class="no-issues">No issues found.</p>'}
+      </div>
+    </details>`
+}
+
+function renderCss(css: CssResult[] | undefined, pages: PageResult[]): string {
+  if (!css) return ''
+  const pageIndex = new Map(pages.map((page, i) => [page.url, i]))
+  return `
+  <section id="stylesheets" class="css-section">
+    <h2>Stylesheets (${css.length})</h2>
+    ${css.map((result) => renderStylesheet(result, pageIndex)).join('') || '<p class="no-issues">No stylesheets found.</p>'}
+  </section>`
+}
+
+const ISSUE_URL_LIMIT = 20
+
+function renderIssues(issues: IssueGroup[] | undefined, pages: PageResult[]): string {
+  if (!issues || issues.length === 0) return ''
+  const pageIndex = new Map(pages.map((page, i) => [page.url, i]))
+  const rows = issues.map((issue, rank) => {
+    const links = issue.urls.slice(0, ISSUE_URL_LIMIT).map((url) => {
+      const index = pageIndex.get(url)
+      return `<li><a href="${index !== undefined ? `#page-${index + 1}` : escapeHtml(url)}">${escapeHtml(url)}</a></li>`
+    }).join('')
+    const more = issue.urls.length > ISSUE_URL_LIMIT ? `<li>… and ${issue.urls.length - ISSUE_URL_LIMIT} more</li>` : ''
+    const examples = issue.examples.length > 1 || issue.examples[0] !== issue.template
+      ? `<span class="issue-examples">e.g. ${issue.examples.map(escapeHtml).join(' · ')}</span>`
+      : ''
+    return `
+        <tr class="issue-${issue.type}">
+          <td class="issue-rank">${rank + 1}</td>
+          <td>
+            <span class="issue-template"><span class="msg-icon">${getMessageIcon(issue)}</span> ${escapeHtml(issue.template)}</span>
+            ${examples}
+            <details class="issue-urls"><summary>Pages</summary><ul>${links}${more}</ul></details>
+          </td>
+          <td>${issue.pages}</td>
+          <td>${issue.occurrences}</td>
+        </tr>`
+  }).join('')
+  return `
+  <section id="issues" class="issues">
+    <details ${issues.length <= 10 ? 'open' : ''}>
+      <summary>Top issues — ${issues.length} distinct, ranked by pages affected</summary>
+      <table>
+        <thead><tr><th>#</th><th>Issue</th><th>Pages</th><th>Occurrences</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </details>
+  </section>`
+}
+
+function renderSampling(sampling: SamplingSummary | undefined): string {
+  if (!sampling) return ''
+  const rows = sampling.groups.map((group) => `
+        <tr>
+          <td class="sample-pattern">${escapeHtml(group.pattern)}</td>
+          <td>${group.sampled}</td>
+          <td>${group.total}</td>
+        </tr>`).join('')
+  return `
+  <section class="sampling">
+    <details>
+      <summary>Sampled ${sampling.groups.length} URL template groups (up to ${sampling.perGroup} per group)</summary>
+      <table>
+        <thead><tr><th>Template</th><th>Validated</th><th>URLs represented</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </details>
+  </section>`
+}
+
+export interface HtmlReportOptions {
+  /** Adds a refresh tag, so a report rewritten by --watch reloads itself in the browser. */
+  refreshSeconds?: number
+}
+
+export function generateHtmlReport(report: Report, options: HtmlReportOptions = {}): string {
   const { summary, pages } = report
   const sidebarItems = pages.map(renderSidebarItem).join('')
   const pagesSections = pages.map(renderPage).join('')
+  const discoverySection = renderDiscovery(report.discovery)
+  const samplingSection = renderSampling(report.sampling)
+  const cssSection = renderCss(report.css, pages)
+  const issuesSection = renderIssues(report.issues, pages)
 
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
-  <meta charset="UTF-8">
+  <meta charset="UTF-8">${options.refreshSeconds !== undefined ? `
+  <meta http-equiv="refresh" content="${options.refreshSeconds}">` : ''}
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>W3C Validation Report — ${escapeHtml(summary.sitemapUrl)}</title>
   <style>
@@ -158,6 +415,10 @@ export function generateHtmlReport(report: Report): string {
     .stats-bar .stat-item.warnings .val { color: var(--color-warning); }
     .stats-bar .stat-item.clean .val { color: var(--color-clean); }
     .stats-bar .stat-item.total .val { color: var(--color-text); }
+    .stats-bar a.stat-item { color: inherit; text-decoration: none; }
+    .stats-bar .stat-item.css-errors .val { color: var(--color-error); }
+    .stats-bar .stat-item.new .val { color: var(--color-failed); }
+    .stats-bar .stat-item.fixed .val { color: var(--color-clean); }
     .stats-bar .generated { margin-left: auto; font-size: 12px; color: var(--color-text-muted); white-space: nowrap; }
     .sidebar {
       position: fixed; top: var(--stats-height); left: 0;
@@ -235,13 +496,18 @@ export function generateHtmlReport(report: Report): string {
       flex: 1; font-family: 'SF Mono', 'Fira Code', monospace; font-size: 13px;
       overflow: hidden; text-overflow: ellipsis; white-space: nowrap;
     }
+    a.page-url { color: inherit; text-decoration: none; }
+    a.page-url:hover { text-decoration: underline; }
     .page-stats { display: flex; gap: 8px; align-items: center; }
     .stat { font-size: 12px; font-weight: 600; }
     .stat-error { color: var(--color-error); }
     .stat-warning { color: var(--color-warning); }
     .stat-info { color: var(--color-info); }
     .stat-clean { color: var(--color-clean); }
+    .stat-new { color: var(--color-failed); }
+    .stat-fixed { color: var(--color-clean); }
     .page-messages { background: var(--color-bg); padding: 12px 16px; }
+    .page-note { color: var(--color-text-muted); font-size: 12px; font-style: italic; padding: 4px 0; }
     .no-issues { color: var(--color-clean); font-size: 13px; padding: 4px 0; }
     .message {
       display: flex; gap: 10px; padding: 8px 0;
@@ -257,6 +523,23 @@ export function generateHtmlReport(report: Report): string {
     .message-error .msg-text { color: #fca5a5; }
     .message-warning .msg-text { color: #fcd34d; }
     .message-info .msg-text { color: #93c5fd; }
+    .msg-delta {
+      display: inline-block; margin: 2px 8px 0 0; padding: 0 6px; border-radius: 10px;
+      font-size: 10px; font-weight: 700; text-transform: uppercase;
+    }
+    .delta-new { background: rgba(124,58,237,0.2); color: var(--color-failed); }
+    .delta-fixed { background: rgba(22,163,74,0.2); color: var(--color-clean); }
+    .message-fixed .msg-text { color: var(--color-text-muted); text-decoration: line-through; }
+    .message-fixed .msg-icon { color: var(--color-clean); }
+    .msg-reason {
+      display: block; margin-top: 2px; font-size: 11px; font-style: italic; color: var(--color-text-muted);
+    }
+    .suppressed { margin-top: 10px; border-style: dashed; opacity: 0.75; }
+    .suppressed > summary {
+      padding: 6px 12px; cursor: pointer; font-size: 12px; color: var(--color-text-muted);
+      background: var(--color-surface);
+    }
+    .suppressed .message { padding: 8px 12px; }
     .msg-location {
       display: inline-block; margin-top: 2px; font-size: 11px;
       color: var(--color-text-muted); font-family: monospace;
@@ -266,6 +549,68 @@ export function generateHtmlReport(report: Report): string {
       border-radius: 4px; font-family: 'SF Mono', 'Fira Code', monospace;
       font-size: 12px; color: var(--color-text-muted); white-space: pre-wrap; overflow-x: auto;
     }
+    .source-viewer { margin-top: 10px; }
+    .source-viewer > summary {
+      padding: 6px 12px; cursor: pointer; font-size: 12px; color: var(--color-text-muted);
+      background: var(--color-surface);
+    }
+    .src-code {
+      max-height: 480px; overflow: auto; padding: 6px 0; background: var(--color-surface2);
+      font-family: 'SF Mono', 'Fira Code', monospace; font-size: 12px; line-height: 1.5;
+    }
+    .src-line { display: block; padding-right: 12px; white-space: pre; }
+    .src-ln {
+      display: inline-block; width: 5ch; margin-right: 12px; padding-right: 8px; text-align: right;
+      color: var(--color-text-muted); border-right: 1px solid var(--color-border); user-select: none;
+    }
+    .src-has-error { background: rgba(220,38,38,0.08); }
+    .src-has-warning { background: rgba(217,119,6,0.08); }
+    .src-has-info { background: rgba(37,99,235,0.08); }
+    .src-code mark { color: inherit; border-radius: 2px; }
+    .src-code mark.src-error { background: rgba(220,38,38,0.35); }
+    .src-code mark.src-warning { background: rgba(217,119,6,0.35); }
+    .src-code mark.src-info { background: rgba(37,99,235,0.3); }
+    .src-line.src-focus { outline: 1px solid var(--color-info); outline-offset: -1px; }
+    a.src-link { color: var(--color-info); text-decoration: none; }
+    a.src-link:hover { text-decoration: underline; }
+    .discovery {
+      margin-bottom: 20px; padding: 12px 16px; border-radius: 8px;
+      border: 1px solid var(--color-border); background: var(--color-surface);
+    }
+    .discovery h2 { font-size: 14px; margin-bottom: 6px; }
+    .discovery p { font-size: 13px; color: var(--color-text-muted); }
+    .discovery-list { margin-top: 8px; border: none; }
+    .discovery-list > summary { cursor: pointer; font-size: 13px; color: var(--color-warning); }
+    .discovery-list ul { margin: 6px 0 0 20px; font-family: 'SF Mono', 'Fira Code', monospace; font-size: 12px; }
+    .css-section { margin-top: 28px; }
+    .css-section h2 { font-size: 15px; margin-bottom: 12px; }
+    .stylesheet { margin-bottom: 12px; }
+    .css-pages { font-size: 12px; color: var(--color-text-muted); padding-bottom: 8px; }
+    .css-pages a { color: var(--color-info); margin-left: 8px; text-decoration: none; }
+    .sampling { margin-bottom: 20px; }
+    .sampling summary { padding: 10px 16px; cursor: pointer; background: var(--color-surface); font-size: 13px; }
+    .sampling table { width: 100%; border-collapse: collapse; font-size: 12px; }
+    .sampling th, .sampling td { padding: 6px 16px; text-align: left; border-top: 1px solid var(--color-border); }
+    .sampling th { color: var(--color-text-muted); font-weight: 600; }
+    .sample-pattern { font-family: 'SF Mono', 'Fira Code', monospace; }
+    .issues { margin-bottom: 20px; }
+    .issues > details > summary { padding: 10px 16px; cursor: pointer; background: var(--color-surface); font-size: 13px; }
+    .issues table { width: 100%; border-collapse: collapse; font-size: 12px; }
+    .issues th, .issues td { padding: 6px 16px; text-align: left; vertical-align: top; border-top: 1px solid var(--color-border); }
+    .issues th { color: var(--color-text-muted); font-weight: 600; }
+    .issue-rank { color: var(--color-text-muted); }
+    .issue-template { display: flex; gap: 8px; font-size: 13px; }
+    .issue-error .issue-template { color: #fca5a5; }
+    .issue-warning .issue-template { color: #fcd34d; }
+    .issue-info .issue-template { color: #93c5fd; }
+    .issue-error .msg-icon { color: var(--color-error); }
+    .issue-warning .msg-icon { color: var(--color-warning); }
+    .issue-info .msg-icon { color: var(--color-info); }
+    .issue-examples { display: block; margin-top: 2px; font-size: 11px; color: var(--color-text-muted); }
+    .issue-urls { margin-top: 4px; border: none; }
+    .issue-urls > summary { cursor: pointer; font-size: 11px; color: var(--color-text-muted); }
+    .issue-urls ul { margin: 4px 0 0 18px; font-family: 'SF Mono', 'Fira Code', monospace; font-size: 11px; }
+    .issue-urls a { color: var(--color-info); text-decoration: none; }
     ::-webkit-scrollbar { width: 6px; height: 6px; }
     ::-webkit-scrollbar-track { background: transparent; }
     ::-webkit-scrollbar-thumb { background: var(--color-surface2); border-radius: 3px; }
@@ -285,6 +630,10 @@ export function generateHtmlReport(report: Report): string {
     <span class="stat-item clean"><span class="lbl">Clean:</span> <span class="val">${summary.pagesClean}</span></span>
     <span class="stat-item warnings"><span class="lbl">Warnings:</span> <span class="val">${summary.pagesWithWarnings}</span></span>
     <span class="stat-item errors"><span class="lbl">Errors:</span> <span class="val">${summary.pagesWithErrors}</span></span>
+    ${summary.cssStylesheets !== undefined ? `<a class="stat-item css-errors" href="#stylesheets"><span class="lbl">CSS errors:</span> <span class="val">${summary.cssErrors ?? 0}</span></a>` : ''}
+    ${summary.totalSuppressed ? `<span class="stat-item suppressed-count"><span class="lbl">Suppressed:</span> <span class="val">${summary.totalSuppressed}</span></span>` : ''}
+    ${summary.baseline ? `<span class="stat-item new"><span class="lbl">New errors:</span> <span class="val">${summary.baseline.newErrors}</span></span>
+    <span class="stat-item fixed"><span class="lbl">Fixed:</span> <span class="val">${summary.baseline.fixedErrors + summary.baseline.fixedWarnings}</span></span>` : ''}
   </div>
   <span class="generated">Generated ${escapeHtml(summary.generatedAt)}</span>
 </header>
@@ -308,9 +657,15 @@ export function generateHtmlReport(report: Report): string {
     <button class="ctrl-btn" onclick="collapseAll()">Collapse All</button>
   </div>
 
+  ${discoverySection}
+  ${samplingSection}
+  ${issuesSection}
+
   <div id="pages-list">
     ${pagesSections}
   </div>
+
+  ${cssSection}
 </main>
 
 <script>
@@ -327,7 +682,7 @@ export function generateHtmlReport(report: Report): string {
     });
   }
   function expandAll() {
-    document.querySelectorAll('#pages-list details:not(.hidden)').forEach(d => d.setAttribute('open', ''));
+    document.querySelectorAll('#pages-list details:not(.hidden):not(.source-viewer)').forEach(d => d.setAttribute('open', ''));
   }
   function collapseAll() {
     document.querySelectorAll('#pages-list details').forEach(d => d.removeAttribute('open'));
@@ -345,6 +700,23 @@ export function generateHtmlReport(report: Report): string {
       }
     });
   });
+  document.addEventListener('click', e => {
+    const link = e.target instanceof Element ? e.target.closest('.src-link') : null;
+    if (!link) return;
+    e.preventDefault();
+    const id = link.getAttribute('href').slice(1);
+    const line = document.getElementById(id);
+    if (!line) return;
+    const viewer = line.closest('.source-viewer');
+    if (viewer) viewer.setAttribute('open', '');
+    document.querySelectorAll('.src-focus').forEach(el => el.classList.remove('src-focus'));
+    const prefix = id.slice(0, id.lastIndexOf('-L') + 2);
+    for (let n = Number(link.dataset.first); n <= Number(link.dataset.last); n++) {
+      const el = document.getElementById(prefix + n);
+      if (el) el.classList.add('src-focus');
+    }
+    line.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  });
 </script>
 
 </body>
@@ -0,0 +1,123 @@
+import axios, { type AxiosRequestConfig, type AxiosResponse } from 'axios'
+import { sleep } from './utils.js'
+import { getAuthHeaders } from './auth.js'
+
+export const USER_AGENT = 'w3c_batch/1.0 (automated validator)'
+
+export interface RetryOptions {
+  retries: number
+  minDelay: number
+  maxDelay: number
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = { retries: 3, minDelay: 1000, maxDelay: 30000 }
+
+const RETRYABLE_STATUS = new Set([429, 502, 503, 504])
+const THROTTLE_STATUS = new Set([429, 503])
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'ECONNREFUSED', 'EPIPE'])
+const MAX_PACE = 60000
+
+export class RequestError extends Error {
+  constructor(message: string, readonly attempts: number, readonly status?: number) {
+    super(message)
+    this.name = 'RequestError'
+  }
+}
+
+interface HostPace {
+  interval: number
+  nextAt: number
+}
+
+let retryOptions: RetryOptions = { ...DEFAULT_RETRY_OPTIONS }
+const paces = new Map<string, HostPace>()
+
+export function configureRetries(options: Partial<RetryOptions>): void {
+  retryOptions = { ...retryOptions, ...options }
+}
+
+export function getPace(url: string): number {
+  return paces.get(new URL(url).host)?.interval ?? 0
+}
+
+function getHostPace(url: string): HostPace {
+  const host = new URL(url).host
+  let pace = paces.get(host)
+  if (!pace) {
+    pace = { interval: 0, nextAt: 0 }
+    paces.set(host, pace)
+  }
+  return pace
+}
+
+async function waitForTurn(pace: HostPace): Promise<void> {
+  const now = Date.now()
+  const startAt = Math.max(now, pace.nextAt)
+  pace.nextAt = startAt + pace.interval
+  if (startAt > now) await sleep(startAt - now)
+}
+
+function slowDown(pace: HostPace, waitMs: number): void {
+  pace.interval = Math.min(MAX_PACE, Math.max(pace.interval * 2, 1000))
+  pace.nextAt = Math.max(pace.nextAt, Date.now() + waitMs)
+}
+
+/** Each success halves the pace again, so a host that throttled once is not slowed for the rest of the run. */
+function speedUp(pace: HostPace): void {
+  pace.interval = pace.interval > 1000 ? Math.round(pace.interval / 2) : 0
+}
+
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+function backoff(attempt: number): number {
+  const ceiling = Math.min(retryOptions.maxDelay, retryOptions.minDelay * 2 ** (attempt - 1))
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2))
+}
+
+function isRetryable(err: unknown): boolean {
+  if (!axios.isAxiosError(err)) return false
+  if (err.response) return RETRYABLE_STATUS.has(err.response.status)
+  return err.code !== undefined && RETRYABLE_CODES.has(err.code)
+}
+
+/** The URL a response came from after redirects; axios' Node adapter keeps it on the raw response. */
+export function getResponseUrl(response: AxiosResponse, requestedUrl: string): string {
+  const url: unknown = response.request?.res?.responseUrl
+  return typeof url === 'string' && url ? url : requestedUrl
+}
+
+export async function request<T>(config: AxiosRequestConfig & { url: string }): Promise<{ response: AxiosResponse<T>; attempts: number }> {
+  const pace = getHostPace(config.url)
+  const headers = { 'User-Agent': USER_AGENT, ...getAuthHeaders(config.url), ...config.headers }
+
+  for (let attempt = 1; ; attempt++) {
+    await waitForTurn(pace)
+    try {
+      const response = await axios.request<T>({ ...config, headers })
+      speedUp(pace)
+      return { response, attempts: attempt }
+    } catch (err: unknown) {
+      const status = axios.isAxiosError(err) ? err.response?.status : undefined
+      const message = err instanceof Error ? err.message : String(err)
+
+      if (attempt > retryOptions.retries || !isRetryable(err)) {
+        const suffix = attempt > 1 ? ` (after ${attempt} attempts)` : ''
+        throw new RequestError(`${message}${suffix}`, attempt, status)
+      }
+
+      const retryAfter = axios.isAxiosError(err) ? parseRetryAfter(err.response?.headers['retry-after']) : undefined
+      const wait = Math.min(MAX_PACE, retryAfter ?? backoff(attempt))
+      if (status !== undefined && THROTTLE_STATUS.has(status)) {
+        slowDown(pace, wait)
+      } else {
+        await sleep(wait)
+      }
+    }
+  }
+}
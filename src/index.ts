@@ -0,0 +1,73 @@
+export {
+  validateSitemap,
+  DEFAULT_SOURCE_MAX_BYTES,
+  getPageStatus,
+  summarizePages,
+  type ValidateSitemapOptions,
+  type ValidationEvent,
+  type ValidationRun,
+  type CssOptions,
+} from './runner.js'
+export { DEFAULT_VALIDATOR_URL, checkValidator, getValidatorDefaults, validatePage, validateHtml, validateUrl } from './validator.js'
+export { DEFAULT_CSS_VALIDATOR_URL } from './css-validator.js'
+export { DEFAULT_CACHE_DIR, DEFAULT_CACHE_MAX_AGE_HOURS, createPageCache, type PageCache } from './cache.js'
+export { configureRetries, RequestError, type RetryOptions } from './http.js'
+export {
+  loadConfig,
+  type Config,
+  type SuppressionRule,
+  type PageBudget,
+  type WebhookConfig,
+  type WebhookEvent,
+  type WebhookTemplate,
+  type WebhookThreshold,
+} from './config.js'
+export {
+  EVENT_HEADER,
+  SIGNATURE_HEADER,
+  buildPayload,
+  exceededLimits,
+  sendWebhooks,
+  signBody,
+  type RunOutcome,
+  type WebhookDelivery,
+  type WebhookPayload,
+} from './webhooks.js'
+export { parseUrlList } from './url-list.js'
+export { DEFAULT_DIR_SITEMAP, findDirPages, listHtmlFiles, mapUrlToFile, type DirPage, type DirPageOptions } from './static-dir.js'
+export {
+  DEFAULT_POLICY,
+  FAIL_ON_LEVELS,
+  evaluatePolicy,
+  type FailOn,
+  type FailurePolicy,
+  type PolicyViolation,
+} from './policy.js'
+export { getActiveRules } from './suppressions.js'
+export { loadBaseline } from './baseline.js'
+export {
+  DEFAULT_HISTORY_FILE,
+  buildTrend,
+  createHistoryStore,
+  toHistoryEntry,
+  type HistoryEntry,
+  type HistoryStore,
+  type HistoryStoreOptions,
+  type Trend,
+  type TrendRun,
+  type IssueGrowth,
+} from './history.js'
+export { generateTrendReport } from './trend-report.js'
+export { DEFAULT_MARKDOWN_MAX_LENGTH, generateMarkdownReport } from './markdown-report.js'
+export {
+  DEFAULT_WATCH_INTERVAL_SECONDS,
+  createPageWatcher,
+  diffMessages,
+  watchForChanges,
+  type PageChange,
+  type PageWatcher,
+  type PageWatcherOptions,
+} from './watch.js'
+export { renderReport, getOutputPath, parseFormats, type ReportFormat } from './report-formats.js'
+export { DEFAULT_CRAWL_OPTIONS, type CrawlOptions } from './crawler.js'
+export type * from './types.js'
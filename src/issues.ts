@@ -0,0 +1,59 @@
+import type { IssueGroup, MessageType, PageResult, W3CMessage } from './types.js'
+
+const QUOTED = /“[^”]*”|‘[^’]*’|"[^"]*"/g
+const TAG = /<\/?[a-zA-Z][\w:-]*[^>]*>/g
+// Digits glued to a letter on the left are part of a name, e.g. h1 or utf8
+const NUMBER = /(?<![A-Za-z_])\d+(?:\.\d+)?/g
+const MAX_EXAMPLES = 3
+
+const SEVERITY: Record<MessageType, number> = { error: 0, warning: 1, info: 2 }
+
+/**
+ * Reduces a message to its rule: quoted names and values become “…”, markup
+ * becomes <…> and numbers become #, so “x-foo” and “x-bar” variants of the
+ * same rule share one template.
+ */
+export function normalizeMessage(message: string): string {
+  return message
+    .replace(QUOTED, '“…”')
+    .replace(TAG, '<…>')
+    .replace(NUMBER, '#')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export function issueKey(msg: W3CMessage): string {
+  return `${msg.type}::${normalizeMessage(msg.message)}`
+}
+
+/** Groups messages across pages, ranked by the number of pages they reach. */
+export function groupIssues(pages: PageResult[]): IssueGroup[] {
+  const groups = new Map<string, IssueGroup>()
+
+  for (const page of pages) {
+    for (const msg of page.messages) {
+      const key = issueKey(msg)
+      let group = groups.get(key)
+      if (!group) {
+        group = { key, type: msg.type, template: normalizeMessage(msg.message), pages: 0, occurrences: 0, urls: [], examples: [] }
+        groups.set(key, group)
+      }
+      group.occurrences++
+      if (group.urls[group.urls.length - 1] !== page.url) {
+        group.urls.push(page.url)
+        group.pages++
+      }
+      const example = msg.message.trim()
+      if (group.examples.length < MAX_EXAMPLES && !group.examples.includes(example)) {
+        group.examples.push(example)
+      }
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) =>
+    b.pages - a.pages ||
+    b.occurrences - a.occurrences ||
+    SEVERITY[a.type] - SEVERITY[b.type] ||
+    a.template.localeCompare(b.template)
+  )
+}
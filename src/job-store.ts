@@ -0,0 +1,74 @@
+import { mkdir, readFile, readdir, writeFile } from 'fs/promises'
+import { join } from 'path'
+import type { Report, ReportSummary } from './types.js'
+
+export const DEFAULT_DATA_DIR = '.w3cbatch-data'
+
+export type JobStatus = 'running' | 'done' | 'cancelled' | 'failed' | 'interrupted'
+
+export interface JobMeta {
+  id: string
+  status: JobStatus
+  createdAt: string
+  finishedAt?: string
+  source: string
+  error?: string
+  summary?: ReportSummary
+}
+
+export interface JobRecord extends JobMeta {
+  report?: Report
+}
+
+export interface JobStore {
+  save(meta: JobMeta, report?: Report): Promise<void>
+  load(id: string): Promise<JobRecord | undefined>
+  list(): Promise<JobMeta[]>
+}
+
+const JOB_ID = /^[0-9a-f-]{36}$/
+const META_SUFFIX = '.meta.json'
+const REPORT_SUFFIX = '.report.json'
+
+async function readJson<T>(path: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as T
+  } catch {
+    return undefined
+  }
+}
+
+export function createJobStore(dir: string): JobStore {
+  let ready: Promise<unknown> | undefined
+  const ensureDir = () => (ready ??= mkdir(dir, { recursive: true }))
+
+  return {
+    async save(meta, report) {
+      await ensureDir()
+      if (report) await writeFile(join(dir, meta.id + REPORT_SUFFIX), JSON.stringify(report), 'utf-8')
+      await writeFile(join(dir, meta.id + META_SUFFIX), JSON.stringify(meta), 'utf-8')
+    },
+
+    async load(id) {
+      if (!JOB_ID.test(id)) return undefined
+      const meta = await readJson<JobMeta>(join(dir, id + META_SUFFIX))
+      if (!meta) return undefined
+      return { ...meta, report: await readJson<Report>(join(dir, id + REPORT_SUFFIX)) }
+    },
+
+    async list() {
+      let files: string[]
+      try {
+        files = await readdir(dir)
+      } catch {
+        return []
+      }
+      const metas = await Promise.all(
+        files.filter((file) => file.endsWith(META_SUFFIX)).map((file) => readJson<JobMeta>(join(dir, file)))
+      )
+      return metas
+        .filter((meta): meta is JobMeta => meta !== undefined)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    },
+  }
+}
@@ -0,0 +1,58 @@
+import type { Report, PageResult, W3CMessage } from './types.js'
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+}
+
+function formatSeconds(ms: number | undefined): string {
+  return ((ms ?? 0) / 1000).toFixed(3)
+}
+
+function formatMessage(msg: W3CMessage): string {
+  let location = ''
+  if (msg.lastLine !== undefined) {
+    location = ` [line ${msg.firstLine ?? msg.lastLine}${msg.firstColumn !== undefined ? `:${msg.firstColumn}` : ''}]`
+  }
+  const extract = msg.extract ? `\n    ${msg.extract.replace(/\n/g, '↵')}` : ''
+  return `${msg.type.toUpperCase()}: ${msg.message}${location}${extract}`
+}
+
+function renderTestCase(result: PageResult): string {
+  const errors = result.messages.filter((m) => m.type === 'error')
+  const others = result.messages.filter((m) => m.type !== 'error')
+  const attrs = `classname="w3c_batch" name="${escapeXml(result.url)}" time="${formatSeconds(result.duration)}"`
+
+  let body = ''
+  if (result.status === 'failed') {
+    const message = result.errorMessage ?? 'Unknown error'
+    body += `\n      <error message="${escapeXml(message)}" type="fetch">${escapeXml(message)}</error>`
+  } else if (errors.length > 0) {
+    const summary = `${errors.length} error${errors.length !== 1 ? 's' : ''}`
+    body += `\n      <failure message="${summary}" type="validation">${escapeXml(errors.map(formatMessage).join('\n'))}</failure>`
+  }
+  if (others.length > 0) {
+    body += `\n      <system-out>${escapeXml(others.map(formatMessage).join('\n'))}</system-out>`
+  }
+
+  return body ? `    <testcase ${attrs}>${body}\n    </testcase>` : `    <testcase ${attrs}/>`
+}
+
+export function generateJunitReport(report: Report): string {
+  const { summary, pages } = report
+  const totalTime = formatSeconds(pages.reduce((sum, r) => sum + (r.duration ?? 0), 0))
+  const counts = `tests="${summary.totalPages}" failures="${summary.pagesWithErrors}" errors="${summary.pagesFailed}" time="${totalTime}"`
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="W3C Validation" ${counts}>
+  <testsuite name="${escapeXml(summary.sitemapUrl)}" ${counts} timestamp="${escapeXml(summary.generatedAt)}">
+${pages.map(renderTestCase).join('\n')}
+  </testsuite>
+</testsuites>
+`
+}
@@ -0,0 +1,121 @@
+import { groupIssues } from './issues.js'
+import { isFileUrl } from './utils.js'
+import type { MessageType, PageResult, Report, W3CMessage } from './types.js'
+
+/** GitHub rejects comments over 65,536 characters; this leaves room for a wrapper around the summary. */
+export const DEFAULT_MARKDOWN_MAX_LENGTH = 60000
+const TOP_ISSUES = 10
+const MESSAGES_PER_PAGE = 20
+const MAX_EXTRACT = 120
+
+const ICONS: Record<MessageType, string> = { error: '❌', warning: '⚠️', info: 'ℹ️' }
+
+function escapeHtml(str: string): string {
+  return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/** Text that must not be read as Markdown or HTML, safe inside a table cell too. */
+function escapeMarkdown(str: string): string {
+  return escapeHtml(str).replace(/[\\`*_[\]|]/g, '\\$&').replace(/\s+/g, ' ').trim()
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count !== 1 ? 's' : ''}`
+}
+
+function pageLabel(page: PageResult): string {
+  return isFileUrl(page.url) ? page.sourceUrl : page.url
+}
+
+function renderHeadline(report: Report): string {
+  const { summary } = report
+  if (summary.baseline) {
+    const { newErrors, newWarnings } = summary.baseline
+    if (newErrors > 0) return `❌ ${plural(newErrors, 'new error')}`
+    return newWarnings > 0 ? `⚠️ No new errors, ${plural(newWarnings, 'new warning')}` : '✅ No new errors or warnings'
+  }
+  if (summary.pagesWithErrors + summary.pagesFailed > 0) {
+    const failed = summary.pagesFailed > 0 ? `, ${summary.pagesFailed} failed` : ''
+    return `❌ ${plural(summary.pagesWithErrors, 'page')} with errors${failed}`
+  }
+  if (summary.pagesWithWarnings > 0) return `⚠️ ${plural(summary.pagesWithWarnings, 'page')} with warnings`
+  return `✅ All ${plural(summary.totalPages, 'page')} passed`
+}
+
+function renderSummary(report: Report): string {
+  const { summary } = report
+  const lines = [
+    `## W3C validation: ${renderHeadline(report)}`,
+    '',
+    `\`${summary.sitemapUrl}\` · ${summary.generatedAt.replace('T', ' ').slice(0, 16)} UTC`,
+    '',
+    '| Pages | Clean | With warnings | With errors | Failed | Errors | Warnings |',
+    '|---:|---:|---:|---:|---:|---:|---:|',
+    `| ${summary.totalPages} | ${summary.pagesClean} | ${summary.pagesWithWarnings} | ${summary.pagesWithErrors} | ${summary.pagesFailed} | ${summary.totalErrors} | ${summary.totalWarnings} |`,
+  ]
+  if (summary.baseline) {
+    const { newErrors, newWarnings, fixedErrors, fixedWarnings } = summary.baseline
+    lines.push('', `Against baseline: **${newErrors} new errors**, ${newWarnings} new warnings, ${fixedErrors} errors and ${fixedWarnings} warnings fixed.`)
+  }
+  return lines.join('\n')
+}
+
+function renderTopIssues(report: Report): string {
+  const issues = (report.issues ?? groupIssues(report.pages)).filter((issue) => issue.type !== 'info')
+  if (issues.length === 0) return ''
+  const rows = issues.slice(0, TOP_ISSUES).map((issue) =>
+    `| ${ICONS[issue.type]} | ${escapeMarkdown(issue.template)} | ${issue.pages} | ${issue.occurrences} |`
+  )
+  const more = issues.length > TOP_ISSUES ? `\n\n_${plural(issues.length - TOP_ISSUES, 'more issue')} not shown._` : ''
+  return ['### Top issues', '', '| | Issue | Pages | Occurrences |', '|---|---|---:|---:|', ...rows].join('\n') + more
+}
+
+function renderMessage(msg: W3CMessage): string {
+  const line = msg.lastLine !== undefined ? `**Line ${msg.firstLine ?? msg.lastLine}:** ` : ''
+  const extract = msg.extract
+    ? `<br><code>${escapeHtml(msg.extract.replace(/\s+/g, ' ').trim().slice(0, MAX_EXTRACT))}</code>`
+    : ''
+  return `- ${ICONS[msg.type]} ${line}${escapeMarkdown(msg.message)}${extract}`
+}
+
+function renderPage(page: PageResult): string {
+  const label = `<code>${escapeHtml(pageLabel(page))}</code>`
+  if (page.status === 'failed') {
+    return `<details>\n<summary>💥 ${label} — failed</summary>\n\n${escapeMarkdown(page.errorMessage ?? 'Unknown error')}\n\n</details>`
+  }
+
+  const errors = page.messages.filter((m) => m.type === 'error')
+  const warnings = page.messages.filter((m) => m.type === 'warning')
+  const counts = [plural(errors.length, 'error'), ...(warnings.length > 0 ? [plural(warnings.length, 'warning')] : [])]
+  const shown = [...errors, ...warnings]
+  const items = shown.slice(0, MESSAGES_PER_PAGE).map(renderMessage)
+  if (shown.length > MESSAGES_PER_PAGE) items.push(`- _${shown.length - MESSAGES_PER_PAGE} more_`)
+  return `<details>\n<summary>❌ ${label} — ${counts.join(', ')}</summary>\n\n${items.join('\n')}\n\n</details>`
+}
+
+/**
+ * Renders a compact Markdown summary for pull request comments and CI step
+ * summaries: totals, the top issues and a collapsed section per failing page.
+ * Page sections stop before the output would pass `maxLength` characters.
+ */
+export function generateMarkdownReport(report: Report, maxLength = DEFAULT_MARKDOWN_MAX_LENGTH): string {
+  const head = [renderSummary(report), renderTopIssues(report)].filter(Boolean).join('\n\n')
+  const failing = report.pages.filter((page) => page.status === 'errors' || page.status === 'failed')
+  if (failing.length === 0) return head + '\n'
+
+  const heading = `### Failing pages (${failing.length})`
+  // Room for the note about pages left out, which is at most this long
+  const reserve = 80
+  let length = head.length + heading.length + 4 + reserve
+  const sections: string[] = []
+  for (const page of failing) {
+    const section = renderPage(page)
+    if (length + section.length + 2 > maxLength) break
+    sections.push(section)
+    length += section.length + 2
+  }
+
+  const omitted = failing.length - sections.length
+  const note = omitted > 0 ? `\n\n_${plural(omitted, 'more failing page')} not shown — see the full report._` : ''
+  return `${head}\n\n${heading}\n\n${sections.join('\n\n')}${note}\n`
+}
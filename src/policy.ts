@@ -0,0 +1,95 @@
+import { matchesUrlPattern } from './utils.js'
+import type { PageBudget } from './config.js'
+import type { MessageType, PageResult, Report } from './types.js'
+
+export type FailOn = 'errors' | 'warnings' | 'none'
+
+export const FAIL_ON_LEVELS: FailOn[] = ['errors', 'warnings', 'none']
+
+export interface FailurePolicy {
+  /** Lowest message level that fails the run on its own; `none` leaves only the explicit limits. */
+  failOn: FailOn
+  /** Errors allowed across the run, outside pages whose budget sets `errors`. */
+  maxErrors?: number
+  maxFailedPages?: number
+  budgets?: PageBudget[]
+}
+
+export type ViolationKind = 'errors' | 'warnings' | 'failedPages'
+
+export interface PolicyViolation {
+  /** The budget's URL pattern, or undefined for a run-wide limit. */
+  budget?: string
+  kind: ViolationKind
+  allowed: number
+  /** Run-wide count, or the worst page's count for a budget. */
+  actual: number
+  /** Budget violations only: every page over the budget, worst first. */
+  pages?: Array<{ url: string; count: number }>
+}
+
+export const DEFAULT_POLICY: FailurePolicy = { failOn: 'errors' }
+
+export function isDefaultPolicy(policy: FailurePolicy): boolean {
+  return policy.failOn === 'errors' &&
+    policy.maxErrors === undefined &&
+    policy.maxFailedPages === undefined &&
+    !policy.budgets?.length
+}
+
+/** With a baseline only new messages count, so accepted debt never fails the run. */
+function countType(page: PageResult, type: MessageType, baseline: boolean): number {
+  return page.messages.filter((m) => m.type === type && (!baseline || m.delta === 'new')).length
+}
+
+/**
+ * Checks a report against a failure policy. Pages matching a budget are held
+ * to it, per page, for the message types it sets; all other messages count
+ * toward the run-wide limits. The run passes when no violation is returned.
+ */
+export function evaluatePolicy(report: Report, policy: FailurePolicy): PolicyViolation[] {
+  const baseline = report.summary.baseline !== undefined
+  const budgets = policy.budgets ?? []
+  const overBudget = new Map<PageBudget, Record<'errors' | 'warnings', Array<{ url: string; count: number }>>>()
+  let errors = 0
+  let warnings = 0
+
+  for (const page of report.pages) {
+    if (page.status === 'failed') continue
+    const budget = budgets.find((b) => matchesUrlPattern(page.matchUrl ?? page.url, b.url))
+    const pageErrors = countType(page, 'error', baseline)
+    const pageWarnings = countType(page, 'warning', baseline)
+    const over = (kind: 'errors' | 'warnings', count: number) => {
+      const entry = overBudget.get(budget!) ?? { errors: [], warnings: [] }
+      entry[kind].push({ url: page.url, count })
+      overBudget.set(budget!, entry)
+    }
+
+    if (budget?.errors === undefined) errors += pageErrors
+    else if (pageErrors > budget.errors) over('errors', pageErrors)
+    if (budget?.warnings === undefined) warnings += pageWarnings
+    else if (pageWarnings > budget.warnings) over('warnings', pageWarnings)
+  }
+
+  // A baseline run has always tolerated failed pages; they carry no messages to compare
+  const limits: Array<[ViolationKind, number, number | undefined]> = [
+    ['errors', errors, policy.maxErrors ?? (policy.failOn === 'none' ? undefined : 0)],
+    ['warnings', warnings, policy.failOn === 'warnings' ? 0 : undefined],
+    ['failedPages', report.summary.pagesFailed, policy.maxFailedPages ?? (policy.failOn === 'none' || baseline ? undefined : 0)],
+  ]
+  const violations: PolicyViolation[] = limits
+    .filter(([, actual, allowed]) => allowed !== undefined && actual > allowed)
+    .map(([kind, actual, allowed]) => ({ kind, actual, allowed: allowed! }))
+
+  for (const budget of budgets) {
+    const entry = overBudget.get(budget)
+    if (!entry) continue
+    for (const kind of ['errors', 'warnings'] as const) {
+      const pages = entry[kind].sort((a, b) => b.count - a.count)
+      if (pages.length === 0) continue
+      violations.push({ budget: budget.url, kind, allowed: budget[kind]!, actual: pages[0].count, pages })
+    }
+  }
+
+  return violations
+}
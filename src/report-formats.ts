@@ -0,0 +1,46 @@
+import { extname } from 'path'
+import { generateHtmlReport } from './html-report.js'
+import { generateJunitReport } from './junit-report.js'
+import { generateSarifReport } from './sarif-report.js'
+import type { Report } from './types.js'
+
+export type ReportFormat = 'html' | 'json' | 'junit' | 'sarif'
+
+const FORMATS: Record<ReportFormat, { extension: string; contentType: string; render: (report: Report) => string }> = {
+  html: { extension: '.html', contentType: 'text/html; charset=utf-8', render: generateHtmlReport },
+  json: { extension: '.json', contentType: 'application/json', render: (report) => JSON.stringify(report, null, 2) },
+  junit: { extension: '.junit.xml', contentType: 'application/xml', render: generateJunitReport },
+  sarif: { extension: '.sarif', contentType: 'application/sarif+json', render: generateSarifReport },
+}
+
+export function isReportFormat(value: string): value is ReportFormat {
+  return Object.prototype.hasOwnProperty.call(FORMATS, value)
+}
+
+export function parseFormats(values: string[]): ReportFormat[] {
+  const formats = new Set<ReportFormat>()
+  for (const value of values.flatMap((v) => v.split(','))) {
+    const format = value.trim().toLowerCase()
+    if (!format) continue
+    if (!isReportFormat(format)) {
+      throw new Error(`Unknown report format "${format}". Expected one of: ${Object.keys(FORMATS).join(', ')}`)
+    }
+    formats.add(format)
+  }
+  return formats.size > 0 ? Array.from(formats) : ['html']
+}
+
+export function getOutputPath(outputFile: string, format: ReportFormat): string {
+  const ext = extname(outputFile)
+  const stem = ext ? outputFile.slice(0, -ext.length) : outputFile
+  if (format === 'html' && ext) return outputFile
+  return stem + FORMATS[format].extension
+}
+
+export function getContentType(format: ReportFormat): string {
+  return FORMATS[format].contentType
+}
+
+export function renderReport(report: Report, format: ReportFormat): string {
+  return FORMATS[format].render(report)
+}
@@ -1,13 +1,18 @@
 import chalk from 'chalk'
-import type { PageResult, ReportSummary, W3CMessage } from './types.js'
+import type { CssResult, DiscoverySummary, IssueGroup, PageResult, ReportSummary, SamplingSummary } from './types.js'
 import { formatDuration } from './utils.js'
+import type { PolicyViolation } from './policy.js'
+import type { PageChange } from './watch.js'
+
+const POLICY_PAGES_SHOWN = 5
 
 export function printPageDetail(result: PageResult, index: number): void {
   const errors = result.messages.filter((m) => m.type === 'error')
   const warnings = result.messages.filter((m) => m.type === 'warning')
   const infos = result.messages.filter((m) => m.type === 'info')
+  const fixed = result.fixed ?? []
 
-  if (result.status === 'clean') return
+  if (result.status === 'clean' && fixed.length === 0) return
 
   console.log()
   console.log(chalk.bold(`Page #${index + 1}: ${result.url}`))
@@ -17,10 +22,18 @@ export function printPageDetail(result: PageResult, index: number): void {
     return
   }
 
+  if (result.fallbackReason) {
+    console.log(chalk.gray(`  ↻ Validated from fetched HTML: ${result.fallbackReason}`))
+  }
+
   const parts: string[] = []
   if (errors.length > 0) parts.push(chalk.red(`${errors.length} error${errors.length !== 1 ? 's' : ''}`))
   if (warnings.length > 0) parts.push(chalk.yellow(`${warnings.length} warning${warnings.length !== 1 ? 's' : ''}`))
   if (infos.length > 0) parts.push(chalk.blue(`${infos.length} info`))
+  if (result.fixed !== undefined) {
+    const added = result.messages.filter((m) => m.delta === 'new').length
+    parts.push(chalk.magenta(`+${added} new`), chalk.green(`-${fixed.length} fixed`))
+  }
   console.log(`  ${parts.join(', ')}`)
 
   for (const msg of result.messages) {
@@ -32,21 +45,25 @@ export function printPageDetail(result: PageResult, index: number): void {
       location = chalk.gray(` [line ${msg.firstLine ?? msg.lastLine}${msg.firstColumn !== undefined ? `:${msg.firstColumn}` : ''}]`)
     }
 
-    console.log(`  ${icon} ${colorFn(msg.message)}${location}`)
+    const deltaTag = msg.delta === 'new' ? chalk.magenta.bold(' [new]') : ''
+
+    console.log(`  ${icon} ${colorFn(msg.message)}${location}${deltaTag}`)
 
     if (msg.extract) {
       const trimmed = msg.extract.replace(/\n/g, '↵').slice(0, 120)
       console.log(`    ${chalk.gray(trimmed)}`)
     }
   }
+
+  for (const msg of fixed) {
+    console.log(`  ${chalk.green('✓')} ${chalk.gray.strikethrough(msg.message)} ${chalk.green('[fixed]')}`)
+  }
 }
 
 export function printAllPageDetails(results: PageResult[]): void {
   const pagesWithIssues = results.filter((r) => r.status !== 'clean')
   for (let i = 0; i < results.length; i++) {
-    if (results[i].status !== 'clean') {
-      printPageDetail(results[i], i)
-    }
+    printPageDetail(results[i], i)
   }
   if (pagesWithIssues.length === 0) {
     console.log()
@@ -54,32 +71,17 @@ export function printAllPageDetails(results: PageResult[]): void {
   }
 }
 
-export function printUniqueErrors(results: PageResult[]): void {
-  const seen = new Map<string, { msg: W3CMessage; count: number }>()
-
-  for (const result of results) {
-    for (const msg of result.messages) {
-      const hash = `${msg.type}::${msg.message.trim()}`
-      const existing = seen.get(hash)
-      if (existing) {
-        existing.count++
-      } else {
-        seen.set(hash, { msg, count: 1 })
-      }
-    }
-  }
-
-  if (seen.size === 0) return
+export function printTopIssues(issues: IssueGroup[]): void {
+  if (issues.length === 0) return
 
   const width = 52
   const line = '─'.repeat(width)
 
   console.log()
   console.log(chalk.bold('┌' + line + '┐'))
-  console.log(chalk.bold('│') + chalk.bold.magenta('  Unique Issues').padEnd(width + 1) + chalk.bold('│'))
+  console.log(chalk.bold('│') + chalk.bold.magenta('  Top Issues').padEnd(width + 1) + chalk.bold('│'))
   console.log(chalk.bold('├' + line + '┤'))
 
-  const totalAll = Array.from(seen.values()).reduce((s, v) => s + v.count, 0)
   const row = (label: string, value: string | number, colorFn = chalk.white) => {
     const labelStr = `  ${label}`
     const valueStr = String(value)
@@ -87,20 +89,81 @@ export function printUniqueErrors(results: PageResult[]): void {
     console.log(chalk.bold('│') + labelStr + colorFn(valueStr).padStart(valueStr.length + padding) + chalk.bold('│'))
   }
 
-  row('Total occurrences:', totalAll)
-  row('Unique issues:', seen.size, chalk.cyan)
+  row('Total occurrences:', issues.reduce((sum, issue) => sum + issue.occurrences, 0))
+  row('Unique issues:', issues.length, chalk.cyan)
   console.log(chalk.bold('└' + line + '┘'))
   console.log()
 
-  for (const [, { msg, count }] of seen) {
-    const icon = msg.type === 'error' ? chalk.red('✗') : msg.type === 'warning' ? chalk.yellow('⚠') : chalk.blue('ℹ')
-    const colorFn = msg.type === 'error' ? chalk.red : msg.type === 'warning' ? chalk.yellow : chalk.blue
-    const countLabel = count > 1 ? chalk.gray(` (×${count} pages)`) : ''
-    console.log(`  ${icon} ${colorFn(msg.message)}${countLabel}`)
+  for (const issue of issues) {
+    const icon = issue.type === 'error' ? chalk.red('✗') : issue.type === 'warning' ? chalk.yellow('⚠') : chalk.blue('ℹ')
+    const colorFn = issue.type === 'error' ? chalk.red : issue.type === 'warning' ? chalk.yellow : chalk.blue
+    const reach = `${issue.pages} page${issue.pages !== 1 ? 's' : ''}`
+    const times = issue.occurrences > issue.pages ? `, ${issue.occurrences} occurrences` : ''
+    console.log(`  ${icon} ${colorFn(issue.template)} ${chalk.gray(`(${reach}${times})`)}`)
+    if (issue.examples.length > 1 || issue.examples[0] !== issue.template) {
+      console.log(chalk.gray(`      e.g. ${issue.examples[0]}`))
+    }
   }
   console.log()
 }
 
+export function printDiscovery(discovery: DiscoverySummary): void {
+  console.log()
+  console.log(chalk.bold(`Discovery: ${discovery.crawledPages} pages crawled${discovery.truncated ? ' (limit reached)' : ''}`))
+
+  if (discovery.notInSitemap.length > 0) {
+    console.log(chalk.yellow(`  ${discovery.notInSitemap.length} crawled page${discovery.notInSitemap.length !== 1 ? 's' : ''} missing from the sitemap:`))
+    for (const url of discovery.notInSitemap) console.log(`    ${chalk.gray(url)}`)
+  }
+
+  if (discovery.unlinked.length > 0) {
+    const note = discovery.truncated ? chalk.gray(' (crawl incomplete, may be linked from pages not visited)') : ''
+    console.log(chalk.yellow(`  ${discovery.unlinked.length} sitemap URL${discovery.unlinked.length !== 1 ? 's' : ''} no crawled page links to:`) + note)
+    for (const url of discovery.unlinked) console.log(`    ${chalk.gray(url)}`)
+  }
+
+  if (discovery.notInSitemap.length === 0 && discovery.unlinked.length === 0) {
+    console.log(chalk.green('  Sitemap and crawled links agree.'))
+  }
+}
+
+export function printCssResults(results: CssResult[]): void {
+  for (const result of results) {
+    if (result.status === 'clean') continue
+    const label = result.url ?? `<style> block ${result.id.replace('inline:', '#')}`
+
+    console.log()
+    console.log(chalk.bold(`Stylesheet: ${label}`))
+    const pages = result.pages.length > 3
+      ? `${result.pages.slice(0, 3).join(', ')} and ${result.pages.length - 3} more`
+      : result.pages.join(', ')
+    console.log(chalk.gray(`  Used by: ${pages}`))
+
+    if (result.status === 'failed') {
+      console.log(chalk.red(`  ✗ Failed: ${result.errorMessage}`))
+      continue
+    }
+
+    for (const msg of result.messages) {
+      const icon = msg.type === 'error' ? chalk.red('✗') : chalk.yellow('⚠')
+      const colorFn = msg.type === 'error' ? chalk.red : chalk.yellow
+      const location = msg.lastLine !== undefined ? chalk.gray(` [line ${msg.lastLine}]`) : ''
+      const context = msg.extract ? chalk.gray(` ${msg.extract}`) : ''
+      console.log(`  ${icon} ${colorFn(msg.message)}${location}${context}`)
+    }
+  }
+}
+
+export function printSampling(sampling: SamplingSummary): void {
+  const represented = sampling.groups.reduce((sum, g) => sum + g.total, 0)
+  console.log()
+  console.log(chalk.bold(`Sampling: up to ${sampling.perGroup} page${sampling.perGroup !== 1 ? 's' : ''} per template, ${sampling.groups.length} groups covering ${represented} URLs`))
+  for (const group of sampling.groups) {
+    const counts = chalk.gray(`${group.sampled} of ${group.total}`)
+    console.log(`  ${chalk.cyan(group.pattern)}  ${counts}`)
+  }
+}
+
 export function printSummary(summary: ReportSummary, outputFile?: string): void {
   const width = 52
   const line = '─'.repeat(width)
@@ -129,6 +192,29 @@ export function printSummary(summary: ReportSummary, outputFile?: string): void
   row('Total errors:', summary.totalErrors, summary.totalErrors > 0 ? chalk.red : chalk.green)
   row('Total warnings:', summary.totalWarnings, summary.totalWarnings > 0 ? chalk.yellow : chalk.green)
   row('Total infos:', summary.totalInfos, chalk.blue)
+  if (summary.totalSuppressed) {
+    row('Suppressed:', summary.totalSuppressed, chalk.gray)
+  }
+  if (summary.cacheHits !== undefined) {
+    row('Cache hits:', `${summary.cacheHits} / ${summary.totalPages}`, chalk.cyan)
+  }
+
+  if (summary.cssStylesheets !== undefined) {
+    console.log(chalk.bold('├' + line + '┤'))
+    row('Stylesheets:', summary.cssStylesheets)
+    row('CSS errors:', summary.cssErrors ?? 0, summary.cssErrors ? chalk.red : chalk.green)
+    row('CSS warnings:', summary.cssWarnings ?? 0, summary.cssWarnings ? chalk.yellow : chalk.green)
+  }
+
+  if (summary.baseline) {
+    const { newErrors, newWarnings, fixedErrors, fixedWarnings, unchanged } = summary.baseline
+    console.log(chalk.bold('├' + line + '┤'))
+    row('New errors:', newErrors, newErrors > 0 ? chalk.red : chalk.green)
+    row('New warnings:', newWarnings, newWarnings > 0 ? chalk.yellow : chalk.green)
+    row('Fixed errors:', fixedErrors, chalk.green)
+    row('Fixed warnings:', fixedWarnings, chalk.green)
+    row('Unchanged:', unchanged, chalk.gray)
+  }
 
   if (outputFile) {
     console.log(chalk.bold('├' + line + '┤'))
@@ -142,6 +228,57 @@ export function printSummary(summary: ReportSummary, outputFile?: string): void
   console.log()
 }
 
+export function printPolicyViolations(violations: PolicyViolation[], newOnly = false): void {
+  if (violations.length === 0) return
+  const label = (kind: PolicyViolation['kind']) =>
+    kind === 'failedPages' ? 'failed pages' : newOnly ? `new ${kind}` : kind
+
+  console.log(chalk.bold.red(`Failure policy: ${violations.length} limit${violations.length !== 1 ? 's' : ''} exceeded`))
+  for (const violation of violations) {
+    const over = chalk.red(`+${violation.actual - violation.allowed}`)
+    if (!violation.pages) {
+      console.log(`  ${chalk.red('✗')} ${label(violation.kind)}: ${violation.actual}, allowed ${violation.allowed} (${over})`)
+      continue
+    }
+    const count = violation.pages.length
+    console.log(`  ${chalk.red('✗')} ${chalk.cyan(violation.budget)} ${label(violation.kind)} per page: ${count} page${count !== 1 ? 's' : ''} over ${violation.allowed}`)
+    for (const page of violation.pages.slice(0, POLICY_PAGES_SHOWN)) {
+      console.log(`      ${page.count} ${chalk.red(`(+${page.count - violation.allowed})`)}  ${chalk.gray(page.url)}`)
+    }
+    if (count > POLICY_PAGES_SHOWN) console.log(chalk.gray(`      … and ${count - POLICY_PAGES_SHOWN} more`))
+  }
+  console.log()
+}
+
+export function printWatchChanges(reason: string, changes: PageChange[], checked: number): void {
+  const time = new Date().toLocaleTimeString()
+  if (changes.length === 0) {
+    console.log(chalk.gray(`↻ ${time} ${reason} — no page changed`))
+    return
+  }
+
+  console.log(chalk.bold(`↻ ${time} ${reason} — ${changes.length} of ${checked} page${checked !== 1 ? 's' : ''} changed`))
+  for (const { result, previous, added, resolved } of changes) {
+    if (result.status === 'failed') {
+      console.log(`  ${chalk.red('✗')} ${result.url} ${chalk.red(`failed: ${result.errorMessage}`)}`)
+      continue
+    }
+    const counts = [
+      ...(added.length > 0 ? [chalk.red(`+${added.length}`)] : []),
+      ...(resolved.length > 0 ? [chalk.green(`−${resolved.length}`)] : []),
+    ]
+    const recovered = previous.status === 'failed' ? chalk.green(' recovered') : ''
+    console.log(`  ${result.url}${recovered}  ${counts.length > 0 ? counts.join(' ') : chalk.gray('same messages')}`)
+    for (const msg of added) {
+      const location = msg.lastLine !== undefined ? chalk.gray(` [line ${msg.lastLine}${msg.firstColumn !== undefined ? `:${msg.firstColumn}` : ''}]`) : ''
+      console.log(`    ${chalk.red('+')} ${msg.type === 'error' ? chalk.red(msg.message) : chalk.yellow(msg.message)}${location}`)
+    }
+    for (const msg of resolved) {
+      console.log(`    ${chalk.green('−')} ${chalk.gray(msg.message)}`)
+    }
+  }
+}
+
 export function spinnerFetchText(url: string): string {
   const short = url.length > 60 ? '...' + url.slice(-57) : url
   return `Fetching ${chalk.cyan(short)}`
@@ -154,7 +291,9 @@ export function spinnerValidateText(url: string): string {
 
 export function spinnerDoneText(result: PageResult): string {
   const short = result.url.length > 60 ? '...' + result.url.slice(-57) : result.url
-  const duration = result.duration !== undefined ? chalk.gray(` (${formatDuration(result.duration)})`) : ''
+  const retried = result.attempts !== undefined && result.attempts > 1 ? `, ${result.attempts} attempts` : ''
+  const cached = result.cached ? ', cached' : ''
+  const duration = result.duration !== undefined ? chalk.gray(` (${formatDuration(result.duration)}${retried}${cached})`) : ''
 
   if (result.status === 'failed') {
     return `${chalk.red(short)} — ${chalk.red('failed')}${duration}`
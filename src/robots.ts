@@ -0,0 +1,84 @@
+import { request } from './http.js'
+
+const AGENT_TOKEN = 'w3c_batch'
+
+interface RobotsRule {
+  allow: boolean
+  pattern: RegExp
+  length: number
+}
+
+export interface Robots {
+  sitemaps: string[]
+  isAllowed(url: string): boolean
+}
+
+function patternToRegExp(path: string): RegExp {
+  const anchored = path.endsWith('$')
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${body}${anchored ? '$' : ''}`)
+}
+
+export function parseRobots(text: string): Robots {
+  const sitemaps: string[] = []
+  const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = []
+  let current: { agents: string[]; rules: RobotsRule[] } | undefined
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const colon = line.indexOf(':')
+    if (colon === -1) continue
+    const field = line.slice(0, colon).trim().toLowerCase()
+    const value = line.slice(colon + 1).trim()
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value)
+    } else if (field === 'user-agent') {
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] }
+        groups.push(current)
+      }
+      current.agents.push(value.toLowerCase())
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      // An empty Disallow allows everything, so it adds no rule
+      if (!value) continue
+      current.rules.push({ allow: field === 'allow', pattern: patternToRegExp(value), length: value.length })
+    }
+  }
+
+  // RFC 9309: a group applies when its user-agent equals our product token, case-insensitively
+  const ownGroups = groups.filter((g) => g.agents.includes(AGENT_TOKEN))
+  const rules = (ownGroups.length > 0 ? ownGroups : groups.filter((g) => g.agents.includes('*'))).flatMap((g) => g.rules)
+
+  return {
+    sitemaps,
+    isAllowed(url) {
+      const parsed = new URL(url)
+      const path = parsed.pathname + parsed.search
+      let best: RobotsRule | undefined
+      for (const rule of rules) {
+        if (!rule.pattern.test(path)) continue
+        // Longest match wins; on a tie Allow beats Disallow
+        if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) best = rule
+      }
+      return best?.allow ?? true
+    },
+  }
+}
+
+export async function loadRobots(origin: string): Promise<Robots> {
+  try {
+    const { response } = await request<string>({
+      method: 'GET',
+      url: new URL('/robots.txt', origin).toString(),
+      responseType: 'text',
+      timeout: 15000,
+    })
+    return parseRobots(typeof response.data === 'string' ? response.data : '')
+  } catch {
+    return parseRobots('')
+  }
+}
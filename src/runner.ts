@@ -0,0 +1,474 @@
+import pLimit from 'p-limit'
+import { resolve } from 'path'
+import { pathToFileURL } from 'url'
+import { extractUrlsFromSitemap, fetchSitemapXml, filterSince, parseUrlsFromXml } from './sitemap.js'
+import { DEFAULT_VALIDATOR_URL, fetchPageHtml, getValidatorDefaults, validatePage, type ValidationStage } from './validator.js'
+import { DEFAULT_CSS_VALIDATOR_URL, collectStylesheets, validateStylesheet } from './css-validator.js'
+import { RequestError } from './http.js'
+import { applyBaseline } from './baseline.js'
+import { partitionSuppressed } from './suppressions.js'
+import { DEFAULT_CRAWL_OPTIONS, compareWithSitemap, crawlSite, type CrawlOptions, type CrawlResult } from './crawler.js'
+import { applyUrlFilters, validateUrlPatterns } from './url-filters.js'
+import { resolveUrlToBase, getOrigin, sleep } from './utils.js'
+import { createRedactor, splitUrlCredentials, trustOrigin, withSiteAuth, type SiteAuth } from './auth.js'
+import { groupIssues } from './issues.js'
+import { findDirPages, type DirPage } from './static-dir.js'
+import type { PageCache } from './cache.js'
+import type { SuppressionRule } from './config.js'
+import type { CssResult, PageResult, PageStatus, Report, ReportSummary, SampleGroup, W3CMessage } from './types.js'
+
+export const DEFAULT_SOURCE_MAX_BYTES = 512 * 1024
+
+export interface CssOptions {
+  validatorUrl?: string
+  delay?: number
+  concurrency?: number
+}
+
+export interface ValidateSitemapOptions {
+  /** Sitemap URL (.xml or .xml.gz); a bare origin discovers sitemaps from robots.txt. */
+  sitemap?: string
+  /** Sitemap XML text, used instead of fetching `sitemap`. Nested sitemaps of an index are still fetched. */
+  sitemapXml?: string
+  /** Page URLs to validate as listed, e.g. from a plain URL list; can be combined with a sitemap or crawl. */
+  urls?: string[]
+  /**
+   * Static build directory whose .html files are POSTed to the validator straight
+   * from disk. Pages are reported under their path relative to the directory.
+   * Cannot be combined with the other sources.
+   */
+  dir?: string
+  /** Sitemap file inside `dir` whose URLs are mapped to files, instead of walking the directory. */
+  dirSitemap?: string
+  /** Start URL for link-crawl discovery; can be combined with a sitemap. */
+  crawl?: string
+  crawlOptions?: Partial<CrawlOptions>
+  /** Base URL every page is rewritten to (default: origin of the sitemap or crawl URL). */
+  base?: string
+  since?: Date
+  include?: string[]
+  exclude?: string[]
+  maxPages?: number
+  samplePerGroup?: number
+  validatorUrl?: string
+  /** Pause after each page that was not a cache hit (default: depends on the validator). */
+  delay?: number
+  concurrency?: number
+  cache?: PageCache
+  /** Active suppression rules; see `getActiveRules`. */
+  suppressions?: SuppressionRule[]
+  /** Also validate the pages' stylesheets. */
+  css?: boolean | CssOptions
+  /** Keep each page's HTML on its result, up to this many bytes, for the HTML report's source viewer. */
+  sourceMaxBytes?: number
+  baseline?: { file: string; report: Report }
+  /** Results from an earlier, interrupted run keyed by resolved URL; these pages are not validated again. */
+  completed?: Map<string, PageResult>
+  /**
+   * Credentials for the site's own URLs. Pages are then fetched here and POSTed
+   * to the validator, and secret values are removed from events and the report.
+   */
+  auth?: SiteAuth
+  /** Limits applied while resolving a sitemap index; `maxUrls` also caps the URLs found overall. */
+  maxUrls?: number
+  maxSitemapBytes?: number
+  /** Pages not yet started are skipped once aborted; the report covers the pages that finished. */
+  signal?: AbortSignal
+}
+
+export type ValidationEvent =
+  | { type: 'sitemap_loading'; url: string }
+  | { type: 'sitemap_loaded'; url: string; count: number }
+  | { type: 'sitemapindex_resolving'; count: number; urls: string[] }
+  | { type: 'sitemapindex_fetching'; url: string }
+  | { type: 'sitemapindex_fetched'; url: string; count: number }
+  | { type: 'sitemapindex_fetch_error'; url: string; message: string }
+  | { type: 'sitemapindex_resolved'; totalUrls: number }
+  | { type: 'dir_scanning'; dir: string }
+  | { type: 'dir_scanned'; dir: string; count: number }
+  | { type: 'crawl_start'; url: string }
+  | { type: 'crawl_progress'; url: string; found: number }
+  | { type: 'crawl_done'; count: number; truncated: boolean }
+  | {
+      type: 'sitemap_done'
+      count: number
+      totalUrls: number
+      urls: string[]
+      groups?: SampleGroup[]
+      resumed: number
+    }
+  | { type: 'page_fetching'; index: number; url: string }
+  | { type: 'page_validating'; index: number; url: string }
+  | { type: 'page_done'; index: number; result: PageResult; resumed: boolean }
+  | { type: 'css_start'; count: number }
+  | { type: 'css_progress'; checked: number; total: number }
+  | { type: 'css_done'; results: CssResult[] }
+  | { type: 'done'; report: Report }
+
+export interface ValidationRun extends AsyncIterable<ValidationEvent> {
+  /** Resolves with the final report, or rejects when the URL list could not be built. */
+  report: Promise<Report>
+}
+
+export function getPageStatus(messages: W3CMessage[]): PageStatus {
+  if (messages.some((m) => m.type === 'error')) return 'errors'
+  if (messages.some((m) => m.type === 'warning')) return 'warnings'
+  return 'clean'
+}
+
+function countType(messages: W3CMessage[], type: W3CMessage['type']): number {
+  return messages.filter((m) => m.type === type).length
+}
+
+export function summarizePages(pages: PageResult[], sitemapUrl: string): ReportSummary {
+  return {
+    totalPages: pages.length,
+    pagesWithErrors: pages.filter((r) => r.status === 'errors').length,
+    pagesWithWarnings: pages.filter((r) => r.status === 'warnings').length,
+    pagesClean: pages.filter((r) => r.status === 'clean').length,
+    pagesFailed: pages.filter((r) => r.status === 'failed').length,
+    totalErrors: pages.reduce((sum, r) => sum + countType(r.messages, 'error'), 0),
+    totalWarnings: pages.reduce((sum, r) => sum + countType(r.messages, 'warning'), 0),
+    totalInfos: pages.reduce((sum, r) => sum + countType(r.messages, 'info'), 0),
+    totalSuppressed: pages.reduce((sum, r) => sum + (r.suppressed?.length ?? 0), 0),
+    generatedAt: new Date().toISOString(),
+    sitemapUrl,
+  }
+}
+
+export function redactResult(result: PageResult, redact: (text: string) => string): PageResult {
+  const redactMessage = (m: W3CMessage): W3CMessage => ({
+    ...m,
+    message: redact(m.message),
+    extract: m.extract !== undefined ? redact(m.extract) : undefined,
+  })
+  return {
+    ...result,
+    messages: result.messages.map(redactMessage),
+    suppressed: result.suppressed?.map(redactMessage),
+    errorMessage: result.errorMessage !== undefined ? redact(result.errorMessage) : undefined,
+    fallbackReason: result.fallbackReason !== undefined ? redact(result.fallbackReason) : undefined,
+    source: result.source !== undefined ? redact(result.source) : undefined,
+  }
+}
+
+/** Cuts HTML over the cap back to the last whole line, so line numbers in the kept part still match. */
+export function captureSource(html: string, maxBytes: number): Pick<PageResult, 'source' | 'sourceTruncated'> {
+  if (Buffer.byteLength(html) <= maxBytes) return { source: html }
+  const head = Buffer.from(html).subarray(0, maxBytes).toString('utf-8')
+  const lastNewline = head.lastIndexOf('\n')
+  return { source: lastNewline >= 0 ? head.slice(0, lastNewline) : '', sourceTruncated: true }
+}
+
+async function resolveSitemapXml(
+  xml: string,
+  options: ValidateSitemapOptions,
+  emit: (event: ValidationEvent) => void,
+  redact: (text: string) => string
+): Promise<string[]> {
+  const result = parseUrlsFromXml(xml)
+  if (result.kind === 'urls') return filterSince(result.entries, options.since).map((entry) => entry.loc)
+
+  const sitemapUrls = filterSince(result.sitemaps, options.since).map((entry) => entry.loc)
+  emit({ type: 'sitemapindex_resolving', count: sitemapUrls.length, urls: sitemapUrls })
+  const urls: string[] = []
+  for (const sitemapUrl of sitemapUrls) {
+    try {
+      emit({ type: 'sitemapindex_fetching', url: sitemapUrl })
+      trustOrigin(sitemapUrl)
+      const nested = parseUrlsFromXml(await fetchSitemapXml(sitemapUrl, options.maxSitemapBytes))
+      if (nested.kind === 'urls') {
+        const locs = filterSince(nested.entries, options.since).map((entry) => entry.loc)
+        urls.push(...locs)
+        emit({ type: 'sitemapindex_fetched', url: sitemapUrl, count: locs.length })
+      }
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err)
+      emit({ type: 'sitemapindex_fetch_error', url: sitemapUrl, message: redact(message) })
+    }
+    if (options.maxUrls !== undefined && urls.length > options.maxUrls) {
+      throw new Error(`The sitemap index lists more than ${options.maxUrls} URLs, the limit for this run.`)
+    }
+  }
+  emit({ type: 'sitemapindex_resolved', totalUrls: urls.length })
+  return urls
+}
+
+async function run(options: ValidateSitemapOptions, emit: (event: ValidationEvent) => void): Promise<Report> {
+  const sourceUrl = options.sitemap ?? options.crawl
+  if (!sourceUrl && options.sitemapXml === undefined && !options.urls?.length && !options.dir) {
+    throw new Error('A sitemap URL, sitemap XML, URL list, crawl start URL or directory is required')
+  }
+  if (options.dir && (sourceUrl || options.sitemapXml !== undefined || options.urls?.length)) {
+    throw new Error('A directory cannot be combined with a sitemap, URL list or crawl')
+  }
+  validateUrlPatterns([
+    ...(options.include ?? []),
+    ...(options.exclude ?? []),
+    ...(options.crawlOptions?.include ?? []),
+    ...(options.crawlOptions?.exclude ?? []),
+  ])
+
+  const validatorUrl = options.validatorUrl ?? DEFAULT_VALIDATOR_URL
+  const defaults = getValidatorDefaults(validatorUrl)
+  const delay = options.delay ?? defaults.delay
+  const concurrency = options.concurrency ?? defaults.concurrency
+  const suppressions = options.suppressions ?? []
+  const redact = createRedactor(options.auth)
+  const { signal, sourceMaxBytes } = options
+
+  let sitemapUrls: string[] = []
+  if (options.sitemapXml !== undefined) {
+    sitemapUrls = await resolveSitemapXml(options.sitemapXml, options, emit, redact)
+  } else if (options.sitemap) {
+    emit({ type: 'sitemap_loading', url: options.sitemap })
+    sitemapUrls = await extractUrlsFromSitemap(options.sitemap, options.since)
+    emit({ type: 'sitemap_loaded', url: options.sitemap, count: sitemapUrls.length })
+  }
+
+  let dirPages: DirPage[] = []
+  if (options.dir) {
+    emit({ type: 'dir_scanning', dir: options.dir })
+    dirPages = await findDirPages(options.dir, {
+      sitemap: options.dirSitemap,
+      since: options.since,
+      maxSitemapBytes: options.maxSitemapBytes,
+    })
+    emit({ type: 'dir_scanned', dir: options.dir, count: dirPages.length })
+  }
+
+  let crawl: CrawlResult | undefined
+  if (options.crawl) {
+    emit({ type: 'crawl_start', url: options.crawl })
+    crawl = await crawlSite(options.crawl, { ...DEFAULT_CRAWL_OPTIONS, ...options.crawlOptions }, (url, found) => {
+      emit({ type: 'crawl_progress', url, found })
+    })
+    emit({ type: 'crawl_done', count: crawl.urls.length, truncated: crawl.truncated })
+  }
+
+  const rawUrls = [...(options.urls ?? []), ...sitemapUrls, ...(crawl?.urls ?? [])]
+  const foundCount = rawUrls.length + dirPages.length
+  if (options.maxUrls !== undefined && foundCount > options.maxUrls) {
+    throw new Error(`Found ${foundCount} URLs, more than the ${options.maxUrls} allowed for this run.`)
+  }
+  const baseUrl = options.base || (sourceUrl ? getOrigin(sourceUrl) : rawUrls.length > 0 ? getOrigin(rawUrls[0]) : '')
+  const reportSource = sourceUrl ?? (options.dir ? resolve(options.dir) : baseUrl)
+
+  // Filters, suppressions and budgets match site URLs; directory pages are matched by their sitemap URL or path
+  const entries = options.dir
+    ? dirPages.map(({ file, path, match }) => ({ source: path, resolved: pathToFileURL(file).href, match }))
+    : rawUrls.map((url) => {
+        const resolved = resolveUrlToBase(url, baseUrl)
+        return { source: url, resolved, match: resolved }
+      })
+  const seenUrls = new Set<string>()
+  const uniqueUrls = entries.filter(({ resolved }) => {
+    if (seenUrls.has(resolved)) return false
+    seenUrls.add(resolved)
+    return true
+  })
+
+  const filtered = applyUrlFilters(uniqueUrls, (u) => u.match, {
+    include: options.include ?? [],
+    exclude: options.exclude ?? [],
+    maxPages: options.maxPages,
+    samplePerGroup: options.samplePerGroup,
+  })
+  const resolvedUrls = filtered.items
+  if (!options.dir) for (const { resolved } of resolvedUrls) trustOrigin(resolved)
+  const sampling = filtered.groups && options.samplePerGroup
+    ? { perGroup: options.samplePerGroup, groups: filtered.groups }
+    : undefined
+  const { completed } = options
+
+  emit({
+    type: 'sitemap_done',
+    count: resolvedUrls.length,
+    totalUrls: uniqueUrls.length,
+    urls: resolvedUrls.map((u) => u.resolved),
+    groups: sampling?.groups,
+    resumed: completed ? resolvedUrls.filter(({ resolved }) => completed.has(resolved)).length : 0,
+  })
+
+  if (resolvedUrls.length === 0) {
+    const report: Report = { summary: summarizePages([], reportSource), pages: [] }
+    emit({ type: 'done', report })
+    return report
+  }
+
+  // With --since the sitemap list is partial, so comparing it to the crawl would be misleading
+  const discovery = crawl && (options.sitemap || options.sitemapXml !== undefined) && !options.since
+    ? compareWithSitemap(sitemapUrls, crawl, (url) => resolveUrlToBase(url, baseUrl))
+    : undefined
+
+  const limit = pLimit(concurrency)
+  const results: PageResult[] = []
+  const pageHtml: Array<{ url: string; html: string }> = []
+
+  const tasks = resolvedUrls.map(({ source, resolved, match }, index) =>
+    limit(async () => {
+      if (signal?.aborted) return
+      const matchUrl = match !== resolved ? match : undefined
+
+      const previous = completed?.get(resolved)
+      if (previous) {
+        results[index] = { ...previous, sourceUrl: source, matchUrl }
+        const needsSource = sourceMaxBytes !== undefined && previous.source === undefined
+        if (options.css || needsSource) {
+          const html = await fetchPageHtml(resolved).catch(() => undefined)
+          if (html !== undefined && options.css) pageHtml[index] = { url: resolved, html }
+          if (html !== undefined && needsSource) {
+            results[index] = redactResult({ ...results[index], ...captureSource(html, sourceMaxBytes) }, redact)
+          }
+        }
+        emit({ type: 'page_done', index, result: results[index], resumed: true })
+        return
+      }
+
+      const startTime = Date.now()
+      let stage: ValidationStage = 'fetching'
+      emit({ type: 'page_fetching', index, url: resolved })
+      let result: PageResult
+
+      try {
+        const validation = await validatePage(resolved, {
+          validatorUrl,
+          cache: options.cache,
+          onStage: (next) => {
+            if (next === stage) return
+            stage = next
+            emit({ type: next === 'fetching' ? 'page_fetching' : 'page_validating', index, url: resolved })
+          },
+        })
+        const { messages, suppressed } = partitionSuppressed(validation.messages, match, suppressions)
+        const { attempts, fallbackReason, cached } = validation
+
+        let html = validation.html
+        if (html === undefined && (options.css || sourceMaxBytes !== undefined)) {
+          html = await fetchPageHtml(resolved).catch(() => undefined)
+        }
+        if (html !== undefined && options.css) pageHtml[index] = { url: resolved, html }
+
+        const duration = Date.now() - startTime
+        const status = getPageStatus(messages)
+        result = { url: resolved, sourceUrl: source, matchUrl, messages, status, duration, attempts, fallbackReason, cached, suppressed }
+        if (html !== undefined && sourceMaxBytes !== undefined) {
+          result = { ...result, ...captureSource(html, sourceMaxBytes) }
+        }
+      } catch (err: unknown) {
+        const duration = Date.now() - startTime
+        const errorMessage = err instanceof Error ? err.message : String(err)
+        const attempts = err instanceof RequestError ? err.attempts : undefined
+        result = { url: resolved, sourceUrl: source, matchUrl, messages: [], status: 'failed', errorMessage, duration, attempts }
+      }
+
+      result = redactResult(result, redact)
+      results[index] = result
+      emit({ type: 'page_done', index, result, resumed: false })
+
+      if (delay > 0 && !result.cached) {
+        await sleep(delay)
+      }
+    })
+  )
+
+  await Promise.all(tasks)
+  const pages = results.filter(Boolean)
+
+  let cssResults: CssResult[] | undefined
+  if (options.css && !signal?.aborted) {
+    const css: CssOptions = options.css === true ? {} : options.css
+    const cssValidatorUrl = css.validatorUrl ?? DEFAULT_CSS_VALIDATOR_URL
+    const cssDefaults = getValidatorDefaults(cssValidatorUrl)
+    const siteRoot = options.dir ? `${pathToFileURL(resolve(options.dir)).href}/` : undefined
+    const stylesheets = collectStylesheets(pageHtml.filter(Boolean), siteRoot)
+    const cssLimit = pLimit(css.concurrency ?? cssDefaults.concurrency)
+    const cssDelay = css.delay ?? cssDefaults.delay
+    let checked = 0
+    emit({ type: 'css_start', count: stylesheets.length })
+    cssResults = await Promise.all(stylesheets.map(({ sheet, pages: sheetPages }) =>
+      cssLimit(async () => {
+        const result = await validateStylesheet(sheet, sheetPages, cssValidatorUrl)
+        if (result.errorMessage !== undefined) result.errorMessage = redact(result.errorMessage)
+        emit({ type: 'css_progress', checked: ++checked, total: stylesheets.length })
+        if (cssDelay > 0) await sleep(cssDelay)
+        return result
+      })
+    ))
+    emit({ type: 'css_done', results: cssResults })
+  }
+
+  const baselineSummary = options.baseline
+    ? applyBaseline(pages, options.baseline.report, options.baseline.file)
+    : undefined
+
+  const summary: ReportSummary = {
+    ...summarizePages(pages, reportSource),
+    cacheHits: options.cache ? pages.filter((r) => r.cached).length : undefined,
+    cssStylesheets: cssResults?.length,
+    cssErrors: cssResults?.reduce((sum, r) => sum + countType(r.messages, 'error'), 0),
+    cssWarnings: cssResults?.reduce((sum, r) => sum + countType(r.messages, 'warning'), 0),
+    baseline: baselineSummary,
+  }
+
+  const report: Report = { summary, pages, issues: groupIssues(pages), css: cssResults, discovery, sampling }
+  emit({ type: 'done', report })
+  return report
+}
+
+/**
+ * Validates every page of a sitemap and/or crawl. Iterate the returned run
+ * for progress events, or await `run.report` for the final report only.
+ */
+export function validateSitemap(options: ValidateSitemapOptions): ValidationRun {
+  const queue: ValidationEvent[] = []
+  let wake: (() => void) | undefined
+  let finished = false
+
+  // Credentials embedded in URLs move into `auth` so the URLs can be shown and stored
+  let auth = options.auth
+  const clean = (url: string | undefined) => {
+    if (url === undefined) return undefined
+    const split = splitUrlCredentials(url)
+    if (split.basic) auth = { ...auth, basic: auth?.basic ?? split.basic }
+    return split.url
+  }
+  const sitemap = clean(options.sitemap)
+  const crawl = clean(options.crawl)
+  const base = clean(options.base)
+  const urls = options.urls?.map((url) => clean(url) ?? url)
+  const origins = [sitemap, crawl, base].filter((url): url is string => !!url && URL.canParse(url))
+  const redact = createRedactor(auth)
+
+  const report = withSiteAuth(auth, origins, () => run({ ...options, sitemap, crawl, base, urls, auth }, (event) => {
+    queue.push(event)
+    wake?.()
+  })).catch((err: unknown) => {
+    const message = err instanceof Error ? err.message : String(err)
+    throw new Error(redact(message))
+  }).finally(() => {
+    finished = true
+    wake?.()
+  })
+  // Callers that only iterate see the failure from the iterator instead
+  report.catch(() => undefined)
+
+  return {
+    report,
+    async *[Symbol.asyncIterator]() {
+      while (true) {
+        const event = queue.shift()
+        if (event) {
+          yield event
+          continue
+        }
+        if (finished) {
+          await report
+          return
+        }
+        await new Promise<void>((resolve) => (wake = resolve))
+        wake = undefined
+      }
+    },
+  }
+}
@@ -0,0 +1,109 @@
+import { createHash } from 'crypto'
+import type { Report, PageResult, W3CMessage } from './types.js'
+
+type SarifLevel = 'error' | 'warning' | 'note'
+
+interface SarifRule {
+  id: string
+  shortDescription: { text: string }
+}
+
+interface SarifResult {
+  ruleId: string
+  level: SarifLevel
+  message: { text: string }
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string }
+      region?: {
+        startLine: number
+        startColumn?: number
+        endLine?: number
+        endColumn?: number
+        snippet?: { text: string }
+      }
+    }
+  }>
+}
+
+const FAILED_RULE_ID = 'page-failed'
+
+function getLevel(msg: W3CMessage): SarifLevel {
+  if (msg.type === 'error') return 'error'
+  if (msg.type === 'warning') return 'warning'
+  return 'note'
+}
+
+function getRuleId(msg: W3CMessage): string {
+  const hash = createHash('sha1').update(`${msg.type}::${msg.message.trim()}`).digest('hex')
+  return `${msg.type}/${hash.slice(0, 10)}`
+}
+
+function getRegion(msg: W3CMessage): SarifResult['locations'][number]['physicalLocation']['region'] {
+  const startLine = msg.firstLine ?? msg.lastLine
+  if (startLine === undefined) return undefined
+  return {
+    startLine,
+    startColumn: msg.firstColumn,
+    endLine: msg.lastLine,
+    // SARIF end columns are exclusive, Nu columns are inclusive
+    endColumn: msg.lastColumn !== undefined ? msg.lastColumn + 1 : undefined,
+    snippet: msg.extract ? { text: msg.extract } : undefined,
+  }
+}
+
+function pageResults(result: PageResult, rules: Map<string, SarifRule>): SarifResult[] {
+  if (result.status === 'failed') {
+    return [{
+      ruleId: FAILED_RULE_ID,
+      level: 'error',
+      message: { text: `Validation failed: ${result.errorMessage ?? 'Unknown error'}` },
+      locations: [{ physicalLocation: { artifactLocation: { uri: result.url } } }],
+    }]
+  }
+
+  return result.messages.map((msg) => {
+    const ruleId = getRuleId(msg)
+    if (!rules.has(ruleId)) {
+      rules.set(ruleId, { id: ruleId, shortDescription: { text: msg.message.trim() } })
+    }
+    return {
+      ruleId,
+      level: getLevel(msg),
+      message: { text: msg.message },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: result.url },
+          region: getRegion(msg),
+        },
+      }],
+    }
+  })
+}
+
+export function generateSarifReport(report: Report): string {
+  const rules = new Map<string, SarifRule>()
+  rules.set(FAILED_RULE_ID, { id: FAILED_RULE_ID, shortDescription: { text: 'Page could not be fetched or validated' } })
+  const results = report.pages.flatMap((page) => pageResults(page, rules))
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'w3c_batch',
+          informationUri: 'https://validator.w3.org/nu/',
+          rules: Array.from(rules.values()),
+        },
+      },
+      invocations: [{
+        executionSuccessful: report.summary.pagesFailed === 0,
+        endTimeUtc: report.summary.generatedAt,
+      }],
+      results,
+    }],
+  }
+
+  return JSON.stringify(sarif, null, 2)
+}
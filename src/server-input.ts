@@ -0,0 +1,153 @@
+import { decodeSitemap, parseUrlsFromXml, type ParseResult } from './sitemap.js'
+import { parseUrlList } from './url-list.js'
+import { validateUrlPatterns } from './url-filters.js'
+
+/** Exactly one of `xml`, `sitemapUrl`, `urls` and `file` is given. */
+export interface ValidateParams {
+  xml?: string
+  sitemapUrl?: string
+  /** Newline-separated, or already split into lines. */
+  urls?: string | string[]
+  /** An uploaded .xml, .xml.gz or .txt file; `content` is base64. */
+  file?: { name: string; content: string }
+  base?: string
+  since?: string
+  include?: string[]
+  exclude?: string[]
+  maxPages?: number
+  samplePerGroup?: number
+  /** Used for this job only: never stored, echoed in events or written to a report. */
+  auth?: {
+    headers?: string[]
+    cookie?: string
+    username?: string
+    password?: string
+  }
+}
+
+export type JobInput =
+  | { kind: 'xml'; xml: string }
+  | { kind: 'sitemap'; url: string }
+  | { kind: 'urls'; urls: string[] }
+
+/** Bad request input, answered with `status` before any job is created. */
+export class InputError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message)
+    this.name = 'InputError'
+  }
+}
+
+/** The server's size limits, checked before a job is created. */
+export interface InputLimits {
+  maxUrls: number
+  maxSitemapBytes: number
+}
+
+const UPLOAD_TYPES = ['.xml.gz', '.xml', '.txt']
+const MAX_QUOTED = 80
+
+function isHttpUrl(url: string): boolean {
+  return URL.canParse(url) && ['http:', 'https:'].includes(new URL(url).protocol)
+}
+
+function checkXml(xml: string, limits: InputLimits, source?: string): JobInput {
+  if (Buffer.byteLength(xml) > limits.maxSitemapBytes) {
+    throw new InputError(`Sitemap is larger than the ${limits.maxSitemapBytes}-byte limit.`, 413)
+  }
+  let result: ParseResult
+  try {
+    result = parseUrlsFromXml(xml, source)
+  } catch (err: unknown) {
+    throw new InputError(err instanceof Error ? err.message : String(err))
+  }
+  if (result.kind === 'urls' && result.entries.length > limits.maxUrls) {
+    throw new InputError(`Sitemap lists ${result.entries.length} URLs; this server accepts at most ${limits.maxUrls}.`, 413)
+  }
+  // Caught here, since a job would only fail on its first page with a bare "Invalid URL"
+  const entries = result.kind === 'urls' ? result.entries : result.sitemaps
+  const bad = entries.find((entry) => !isHttpUrl(entry.loc))
+  if (bad) {
+    const loc = bad.loc.length > MAX_QUOTED ? bad.loc.slice(0, MAX_QUOTED - 1) + '…' : bad.loc
+    const tag = result.kind === 'urls' ? 'url' : 'sitemap'
+    throw new InputError(`${source ?? 'Sitemap'}: <${tag}> ${entries.indexOf(bad) + 1} has <loc>${loc}</loc>, which is not an http(s) URL`)
+  }
+  return { kind: 'xml', xml }
+}
+
+function checkUrlList(text: string, limits: InputLimits, source?: string): JobInput {
+  let urls: string[]
+  try {
+    urls = parseUrlList(text, source)
+  } catch (err: unknown) {
+    throw new InputError(err instanceof Error ? err.message : String(err))
+  }
+  if (urls.length === 0) throw new InputError(`${source ?? 'URL list'} has no URLs`)
+  if (urls.length > limits.maxUrls) {
+    throw new InputError(`${source ?? 'URL list'} has ${urls.length} URLs; this server accepts at most ${limits.maxUrls}.`, 413)
+  }
+  return { kind: 'urls', urls }
+}
+
+function checkUpload(file: NonNullable<ValidateParams['file']>, limits: InputLimits): JobInput {
+  if (typeof file.name !== 'string' || typeof file.content !== 'string') {
+    throw new InputError('"file" must have a "name" and base64 "content"')
+  }
+  const type = UPLOAD_TYPES.find((ext) => file.name.toLowerCase().endsWith(ext))
+  if (!type) throw new InputError(`Unsupported file "${file.name}" — upload a .xml, .xml.gz or .txt file.`)
+
+  let text: string
+  try {
+    text = decodeSitemap(Buffer.from(file.content, 'base64'), limits.maxSitemapBytes)
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err)
+    throw new InputError(`${file.name}: ${message}`, /larger than/.test(message) ? 413 : 400)
+  }
+  return type === '.txt' ? checkUrlList(text, limits, file.name) : checkXml(text, limits, file.name)
+}
+
+function checkOptions(params: ValidateParams): void {
+  if (params.base !== undefined && typeof params.base !== 'string') throw new InputError('"base" must be a string')
+  for (const key of ['include', 'exclude'] as const) {
+    const patterns: unknown = params[key]
+    if (patterns === undefined) continue
+    if (!Array.isArray(patterns) || patterns.some((pattern) => typeof pattern !== 'string')) {
+      throw new InputError(`"${key}" must be a list of URL patterns`)
+    }
+    try {
+      validateUrlPatterns(patterns)
+    } catch (err: unknown) {
+      throw new InputError(`"${key}": ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+  for (const key of ['maxPages', 'samplePerGroup'] as const) {
+    const value: unknown = params[key]
+    if (value !== undefined && (!Number.isInteger(value) || (value as number) < 1)) {
+      throw new InputError(`"${key}" must be a whole number ≥ 1`)
+    }
+  }
+}
+
+/** Checks a POST /api/validate body, so that malformed input is answered with an InputError instead of a failing job. */
+export function readInput(params: ValidateParams, limits: InputLimits): JobInput {
+  checkOptions(params)
+  const given = [params.xml, params.sitemapUrl, params.urls, params.file].filter((value) => value !== undefined && value !== '')
+  if (given.length !== 1) {
+    throw new InputError(`Provide ${given.length === 0 ? 'one' : 'only one'} of "xml", "sitemapUrl", "urls" or "file".`)
+  }
+
+  if (params.file !== undefined) return checkUpload(params.file, limits)
+  if (params.urls !== undefined) {
+    const text = Array.isArray(params.urls) ? params.urls.join('\n') : params.urls
+    if (typeof text !== 'string') throw new InputError('"urls" must be a string or a list of strings')
+    return checkUrlList(text, limits)
+  }
+  if (params.sitemapUrl !== undefined) {
+    const url = typeof params.sitemapUrl === 'string' ? params.sitemapUrl.trim() : ''
+    if (!URL.canParse(url)) throw new InputError(`"sitemapUrl" is not a URL: "${url}"`)
+    if (!isHttpUrl(url)) throw new InputError(`"sitemapUrl" must be an http(s) URL, not ${new URL(url).protocol}`)
+    return { kind: 'sitemap', url }
+  }
+  if (typeof params.xml !== 'string') throw new InputError('"xml" must be a string')
+  return checkXml(params.xml, limits)
+}
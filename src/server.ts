@@ -4,181 +4,322 @@ import { randomUUID } from 'crypto'
 import { readFile, stat } from 'fs/promises'
 import { join, dirname, extname } from 'path'
 import { fileURLToPath } from 'url'
-import pLimit from 'p-limit'
-import axios from 'axios'
-import { parseUrlsFromXml } from './sitemap.js'
-import { fetchPageHtml, validateHtml, validateUrl } from './validator.js'
-import { resolveUrlToBase, getOrigin, sleep, isLocalhost } from './utils.js'
-import { generateHtmlReport } from './html-report.js'
-import type { PageResult, PageStatus, Report, ReportSummary, W3CMessage } from './types.js'
+import { fetchSitemapXml, parseUrlsFromXml } from './sitemap.js'
+import { InputError, readInput, type JobInput, type ValidateParams } from './server-input.js'
+import { DEFAULT_VALIDATOR_URL, checkValidator } from './validator.js'
+import { getOrigin } from './utils.js'
+import { loadConfig, type WebhookConfig } from './config.js'
+import { getActiveRules } from './suppressions.js'
+import { validateSitemap } from './runner.js'
+import { issueKey } from './issues.js'
+import { parseHeaders, splitUrlCredentials, withSiteAuth, type SiteAuth } from './auth.js'
+import { getContentType, getOutputPath, isReportFormat, renderReport } from './report-formats.js'
+import { DEFAULT_DATA_DIR, createJobStore, type JobMeta, type JobStatus } from './job-store.js'
+import { DEFAULT_TREND_RUNS, buildTrend, createHistoryStore, toHistoryEntry, type Trend } from './history.js'
+import { generateTrendReport } from './trend-report.js'
+import { sendWebhooks, type RunOutcome } from './webhooks.js'
+import type { IssueGroup, PageResult, Report, W3CMessage } from './types.js'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
-const PORT = parseInt(process.env.PORT ?? '3000', 10)
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? '', 10)
+  return Number.isNaN(value) || value < 0 ? fallback : value
+}
+
+const PORT = envInt('PORT', 3000)
+const VALIDATOR_URL = process.env.W3C_VALIDATOR_URL || DEFAULT_VALIDATOR_URL
+const CONFIG_FILE = process.env.W3CBATCH_CONFIG
+/** Base of the report links in webhook payloads. */
+const PUBLIC_URL = (process.env.W3CBATCH_PUBLIC_URL || `http://localhost:${PORT}`).replace(/\/+$/, '')
+const DATA_DIR = process.env.W3CBATCH_DATA_DIR || DEFAULT_DATA_DIR
+const store = createJobStore(DATA_DIR)
+const history = createHistoryStore(join(DATA_DIR, 'history.jsonl'), {
+  maxRunsPerSource: envInt('W3CBATCH_HISTORY_RUNS', 100),
+})
+const JOB_TTL_MS = envInt('W3CBATCH_JOB_TTL_MINUTES', 60) * 60_000
+const MAX_RUNNING_JOBS = envInt('W3CBATCH_MAX_RUNNING_JOBS', 2)
+const MAX_SITEMAP_BYTES = envInt('W3CBATCH_MAX_SITEMAP_BYTES', 10 * 1024 * 1024)
+const MAX_URLS = envInt('W3CBATCH_MAX_URLS', 10_000)
+
+/** Where a job's pages come from, shown in the job list until the first URL is known. */
+function inputSource(input: JobInput, base: string | undefined): string {
+  if (base) return splitUrlCredentials(base).url
+  if (input.kind === 'sitemap') return getOrigin(splitUrlCredentials(input.url).url)
+  if (input.kind === 'urls') return getOrigin(input.urls[0])
+  return ''
+}
+
+function toSiteAuth(params: ValidateParams['auth']): SiteAuth | undefined {
+  if (!params) return undefined
+  const headers = parseHeaders((params.headers ?? []).filter((h) => h.trim()))
+  if (params.cookie?.trim()) headers.Cookie = params.cookie.trim()
+  return {
+    headers,
+    basic: params.username ? { username: params.username, password: params.password ?? '' } : undefined,
+  }
+}
 
 interface Job {
-  buffered: string[]
+  id: string
+  createdAt: string
+  finishedAt?: string
+  source: string
+  status: JobStatus
+  error?: string
+  saving: Promise<void>
+  controller: AbortController
+  snapshot: JobSnapshot
   listeners: Set<(data: string) => void>
-  report: string | null
+  report: Report | null
   done: boolean
   aborted: boolean
 }
 
+/**
+ * Compacted replay state. Only the latest event per page is kept, so a
+ * subscriber joining late receives one event per page rather than the full
+ * fetching/validating/done history.
+ */
+interface JobSnapshot {
+  progress?: string
+  sitemap?: string
+  pages: string[]
+  final: string[]
+}
+
+const FINAL_EVENTS = new Set(['done', 'cancelled', 'sitemap_error', 'stream_end'])
+
 const jobs = new Map<string, Job>()
 
-function createJob(): [string, Job] {
+function createJob(source: string): [string, Job] {
   const id = randomUUID()
-  const job: Job = { buffered: [], listeners: new Set(), report: null, done: false, aborted: false }
+  const job: Job = {
+    id,
+    createdAt: new Date().toISOString(),
+    source,
+    status: 'running',
+    saving: Promise.resolve(),
+    controller: new AbortController(),
+    snapshot: { pages: [], final: [] },
+    listeners: new Set(),
+    report: null,
+    done: false,
+    aborted: false,
+  }
   jobs.set(id, job)
+  persistJob(job)
   return [id, job]
 }
 
+/** Queues a write of the job's current state; writes for one job never overlap. */
+function persistJob(job: Job): void {
+  const meta: JobMeta = {
+    id: job.id,
+    status: job.status,
+    createdAt: job.createdAt,
+    finishedAt: job.finishedAt,
+    source: job.source,
+    error: job.error,
+    summary: job.report?.summary,
+  }
+  const report = job.report ?? undefined
+  job.saving = job.saving
+    .then(() => store.save(meta, report))
+    .catch((err: unknown) => {
+      const message = err instanceof Error ? err.message : String(err)
+      console.warn(`  Warning: could not save job ${job.id}: ${message}`)
+    })
+}
+
 function emit(job: Job, event: Record<string, unknown>): void {
   const data = `data: ${JSON.stringify(event)}\n\n`
-  job.buffered.push(data)
+  const { snapshot } = job
+  if (typeof event.index === 'number') snapshot.pages[event.index] = data
+  else if (event.type === 'sitemap_done') snapshot.sitemap = data
+  else if (FINAL_EVENTS.has(event.type as string)) snapshot.final.push(data)
+  else snapshot.progress = data
   job.listeners.forEach((fn) => fn(data))
 }
 
-function endJob(job: Job): void {
+function replay(job: Job): string[] {
+  const { progress, sitemap, pages, final } = job.snapshot
+  return [
+    ...(progress ? [progress] : []),
+    ...(sitemap ? [sitemap] : []),
+    ...pages.filter(Boolean),
+    ...final,
+  ]
+}
+
+function runningJobs(): number {
+  let count = 0
+  for (const job of jobs.values()) if (!job.done) count++
+  return count
+}
+
+/** Finished jobs leave memory after the TTL; their stored copy stays available. */
+function evictFinishedJobs(): void {
+  const cutoff = Date.now() - JOB_TTL_MS
+  for (const [id, job] of jobs) {
+    if (job.done && job.listeners.size === 0 && job.finishedAt && Date.parse(job.finishedAt) < cutoff) {
+      jobs.delete(id)
+    }
+  }
+}
+
+function endJob(job: Job, status: JobStatus, error?: string): void {
   emit(job, { type: 'stream_end' })
   job.done = true
+  job.status = status
+  job.error = error
+  job.finishedAt = new Date().toISOString()
+  persistJob(job)
 }
 
-async function validatePage(url: string): Promise<W3CMessage[]> {
-  if (isLocalhost(url)) {
-    const html = await fetchPageHtml(url)
-    return validateHtml(html)
-  }
+function failJob(job: Job, message: string): void {
+  if (job.done) return
+  emit(job, { type: 'sitemap_error', message })
+  endJob(job, 'failed', message)
+}
 
-  try {
-    return await validateUrl(url)
-  } catch {
-    const html = await fetchPageHtml(url)
-    return validateHtml(html)
-  }
+const TOP_ISSUES = 10
+
+/** Adds the issue-group key the UI uses for "Filter Unique Exceptions". */
+function withIssueKeys(messages: W3CMessage[]): Array<W3CMessage & { key: string }> {
+  return messages.map((msg) => ({ ...msg, key: issueKey(msg) }))
 }
 
-async function runValidation(
-  job: Job,
-  params: { xml: string; base: string }
-): Promise<void> {
-  let rawUrls: string[]
-  try {
-    const result = parseUrlsFromXml(params.xml)
-
-    if (result.kind === 'urls') {
-      rawUrls = result.urls
-    } else {
-      emit(job, { type: 'sitemapindex_resolving', count: result.sitemapUrls.length, urls: result.sitemapUrls })
-      rawUrls = []
-      for (const sitemapUrl of result.sitemapUrls) {
-        try {
-          emit(job, { type: 'sitemapindex_fetching', url: sitemapUrl })
-          const resp = await axios.get<string>(sitemapUrl, {
-            responseType: 'text',
-            headers: { 'User-Agent': 'w3c_batch/1.0 (automated validator)' },
-            timeout: 30000,
-          })
-          const nested = parseUrlsFromXml(resp.data)
-          if (nested.kind === 'urls') {
-            rawUrls.push(...nested.urls)
-            emit(job, { type: 'sitemapindex_fetched', url: sitemapUrl, count: nested.urls.length })
-          }
-        } catch (err: unknown) {
-          emit(job, { type: 'sitemapindex_fetch_error', url: sitemapUrl, message: err instanceof Error ? err.message : String(err) })
-        }
-      }
-      emit(job, { type: 'sitemapindex_resolved', totalUrls: rawUrls.length })
-    }
-  } catch (err: unknown) {
-    emit(job, { type: 'sitemap_error', message: err instanceof Error ? err.message : String(err) })
-    endJob(job)
-    return
-  }
+function topIssues(issues: IssueGroup[] | undefined): Array<Omit<IssueGroup, 'urls'>> {
+  return (issues ?? []).slice(0, TOP_ISSUES).map(({ urls: _urls, ...issue }) => issue)
+}
 
-  if (rawUrls.length === 0) {
-    emit(job, { type: 'sitemap_error', message: 'No <url> entries found in the sitemap XML.' })
-    endJob(job)
-    return
+function pageEvent(index: number, result: PageResult): Record<string, unknown> {
+  return {
+    type: 'page_done',
+    index,
+    url: result.url,
+    status: result.status,
+    messages: withIssueKeys(result.messages),
+    duration: result.duration,
+    errorMessage: result.errorMessage,
+    attempts: result.attempts,
+    fallbackReason: result.fallbackReason,
+    suppressed: result.suppressed?.length ?? 0,
   }
+}
 
-  const baseUrl = params.base.trim() || getOrigin(rawUrls[0])
-  const resolvedUrls = rawUrls.map((url) => ({
-    source: url,
-    resolved: resolveUrlToBase(url, baseUrl),
-  }))
-
-  emit(job, {
-    type: 'sitemap_done',
-    count: resolvedUrls.length,
-    urls: resolvedUrls.map((u) => u.resolved),
+function notifyJob(job: Job, webhooks: WebhookConfig[], outcome: Omit<RunOutcome, 'source' | 'reportUrl'>): void {
+  const reportUrl = outcome.report ? `${PUBLIC_URL}/api/report/${job.id}` : undefined
+  sendWebhooks(webhooks, { source: job.source, reportUrl, ...outcome }).then((deliveries) => {
+    for (const { target, event, ok, error } of deliveries) {
+      if (!ok) console.warn(`  Warning: webhook to ${target} (${event}) for job ${job.id} failed: ${error}`)
+    }
+  }).catch((err: unknown) => {
+    console.warn(`  Warning: webhooks for job ${job.id} failed: ${err instanceof Error ? err.message : String(err)}`)
   })
+}
 
-  const results: PageResult[] = new Array(resolvedUrls.length)
-  const limit = pLimit(1)
-
-  const tasks = resolvedUrls.map(({ source, resolved }, index) =>
-    limit(async () => {
-      if (job.aborted) return
-      const start = Date.now()
-      let result: PageResult
+/** Fetches a sitemap given by URL, with the job's credentials; nested sitemaps are resolved by the runner. */
+async function fetchSitemapInput(job: Job, url: string, auth: SiteAuth | undefined): Promise<string> {
+  const split = splitUrlCredentials(url)
+  const siteAuth = split.basic ? { ...auth, basic: auth?.basic ?? split.basic } : auth
+  emit(job, { type: 'sitemap_loading', url: split.url })
+  return withSiteAuth(siteAuth, [split.url], async () => {
+    let xml: string
+    try {
+      xml = await fetchSitemapXml(split.url, MAX_SITEMAP_BYTES)
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err)
+      throw new Error(`Failed to fetch sitemap at ${split.url}: ${message}`)
+    }
+    // Parsed here as well so a malformed sitemap is reported with its URL
+    parseUrlsFromXml(xml, split.url)
+    return xml
+  })
+}
 
-      try {
-        emit(job, { type: 'page_fetching', index, url: resolved })
-        const messages = await validatePage(resolved)
-        emit(job, { type: 'page_validating', index, url: resolved })
+async function runValidation(job: Job, params: ValidateParams, input: JobInput, base: string | undefined): Promise<void> {
+  let webhooks: WebhookConfig[] = []
+  const fail = (message: string) => {
+    if (job.done) return
+    failJob(job, message)
+    notifyJob(job, webhooks, { error: message })
+  }
 
-        const duration = Date.now() - start
-        const errors = messages.filter((m) => m.type === 'error').length
-        const warnings = messages.filter((m) => m.type === 'warning').length
-        const status: PageStatus = errors > 0 ? 'errors' : warnings > 0 ? 'warnings' : 'clean'
+  try {
+    const config = await loadConfig(CONFIG_FILE)
+    webhooks = config.webhooks
+    const since = params.since ? new Date(params.since) : undefined
+    if (since && Number.isNaN(since.getTime())) throw new Error(`Invalid "since" date: ${params.since}`)
+
+    const auth = toSiteAuth(params.auth)
+    const run = validateSitemap({
+      sitemapXml: input.kind === 'xml'
+        ? input.xml
+        : input.kind === 'sitemap' ? await fetchSitemapInput(job, input.url, auth) : undefined,
+      sitemap: input.kind === 'sitemap' ? input.url : undefined,
+      urls: input.kind === 'urls' ? input.urls : undefined,
+      base,
+      auth,
+      since,
+      include: params.include,
+      exclude: params.exclude,
+      maxPages: params.maxPages,
+      samplePerGroup: params.samplePerGroup,
+      validatorUrl: VALIDATOR_URL,
+      suppressions: getActiveRules(config.suppressions),
+      maxUrls: MAX_URLS,
+      maxSitemapBytes: MAX_SITEMAP_BYTES,
+      signal: job.controller.signal,
+    })
 
-        result = { url: resolved, sourceUrl: source, messages, status, duration }
-      } catch (err: unknown) {
-        result = {
-          url: resolved,
-          sourceUrl: source,
-          messages: [],
-          status: 'failed',
-          errorMessage: err instanceof Error ? err.message : String(err),
-          duration: Date.now() - start,
+    for await (const event of run) {
+      if (event.type === 'sitemap_done') {
+        if (event.count === 0) {
+          fail(event.totalUrls > 0
+            ? `None of the ${event.totalUrls} URLs matched the filters.`
+            : since
+              ? `No pages in the sitemap were modified since ${since.toISOString().slice(0, 10)}.`
+              : 'No <url> entries found in the sitemap.')
+          return
+        }
+        job.source = getOrigin(event.urls[0])
+        emit(job, {
+          type: 'sitemap_done',
+          count: event.count,
+          totalUrls: event.totalUrls,
+          urls: event.urls,
+          groups: event.groups?.map(({ pattern, total, sampled }) => ({ pattern, total, sampled })),
+        })
+      } else if (event.type === 'page_done') {
+        emit(job, pageEvent(event.index, event.result))
+      } else if (event.type === 'done') {
+        job.report = event.report
+        if (job.aborted) {
+          // The abort handler already closed the stream; keep the partial results.
+          persistJob(job)
+          return
         }
+        emit(job, { type: 'done', source: job.source, summary: event.report.summary, issues: topIssues(event.report.issues) })
+        endJob(job, 'done')
+        history.append(toHistoryEntry(event.report, job.source)).catch((err: unknown) => {
+          console.warn(`  Warning: ${err instanceof Error ? err.message : String(err)}`)
+        })
+        notifyJob(job, webhooks, { report: event.report })
+      } else {
+        emit(job, event)
       }
-
-      results[index] = result
-      emit(job, {
-        type: 'page_done',
-        index,
-        url: result.url,
-        status: result.status,
-        messages: result.messages,
-        duration: result.duration,
-        errorMessage: result.errorMessage,
-      })
-
-      await sleep(1000)
-    })
-  )
-
-  await Promise.all(tasks)
-
-  const valid = results.filter(Boolean)
-  const summary: ReportSummary = {
-    totalPages: valid.length,
-    pagesWithErrors: valid.filter((r) => r.status === 'errors').length,
-    pagesWithWarnings: valid.filter((r) => r.status === 'warnings').length,
-    pagesClean: valid.filter((r) => r.status === 'clean').length,
-    pagesFailed: valid.filter((r) => r.status === 'failed').length,
-    totalErrors: valid.reduce((s, r) => s + r.messages.filter((m) => m.type === 'error').length, 0),
-    totalWarnings: valid.reduce((s, r) => s + r.messages.filter((m) => m.type === 'warning').length, 0),
-    totalInfos: valid.reduce((s, r) => s + r.messages.filter((m) => m.type === 'info').length, 0),
-    generatedAt: new Date().toISOString(),
-    sitemapUrl: baseUrl,
+    }
+  } catch (err: unknown) {
+    fail(err instanceof Error ? err.message : String(err))
   }
+}
 
-  job.report = generateHtmlReport({ summary, pages: valid } as Report)
-  emit(job, { type: 'done', summary })
-  endJob(job)
+/** A stored job still marked running that this process does not own was cut off by a restart. */
+function currentStatus(meta: JobMeta): JobStatus {
+  return meta.status === 'running' && !jobs.has(meta.id) ? 'interrupted' : meta.status
 }
 
 const server = http.createServer(async (req, res) => {
@@ -225,19 +366,57 @@ const server = http.createServer(async (req, res) => {
   }
 
   if (req.method === 'POST' && url.pathname === '/api/validate') {
-    let body = ''
-    req.on('data', (chunk: Buffer) => (body += chunk.toString()))
+    const sendError = (status: number, error: string) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error }))
+    }
+
+    if (MAX_RUNNING_JOBS > 0 && runningJobs() >= MAX_RUNNING_JOBS) {
+      req.resume()
+      sendError(429, `${MAX_RUNNING_JOBS} scan(s) already running. Try again when one finishes.`)
+      return
+    }
+
+    // Uploads are base64, and the JSON envelope adds a little on top
+    const maxBody = Math.ceil(MAX_SITEMAP_BYTES * 4 / 3) + 64 * 1024
+    const chunks: Buffer[] = []
+    let received = 0
+    let tooLarge = false
+    req.on('data', (chunk: Buffer) => {
+      if (tooLarge) return
+      received += chunk.length
+      if (received > maxBody) {
+        tooLarge = true
+        chunks.length = 0
+        sendError(413, `Sitemap is larger than the ${MAX_SITEMAP_BYTES}-byte limit.`)
+        return
+      }
+      chunks.push(chunk)
+    })
     req.on('end', () => {
-      let params: { xml: string; base: string }
+      if (tooLarge) return
+      let params: ValidateParams
       try {
-        params = JSON.parse(body) as typeof params
+        params = (JSON.parse(Buffer.concat(chunks).toString('utf-8')) ?? {}) as ValidateParams
       } catch {
-        res.writeHead(400, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({ error: 'Invalid JSON' }))
+        sendError(400, 'Invalid JSON')
         return
       }
-      const [jobId, job] = createJob()
-      runValidation(job, params).catch(console.error)
+      let input: JobInput
+      try {
+        input = readInput(params, { maxUrls: MAX_URLS, maxSitemapBytes: MAX_SITEMAP_BYTES })
+      } catch (err: unknown) {
+        sendError(err instanceof InputError ? err.status : 400, err instanceof Error ? err.message : String(err))
+        return
+      }
+      // Re-checked here because another request may have started while this body was uploading
+      if (MAX_RUNNING_JOBS > 0 && runningJobs() >= MAX_RUNNING_JOBS) {
+        sendError(429, `${MAX_RUNNING_JOBS} scan(s) already running. Try again when one finishes.`)
+        return
+      }
+      const base = params.base?.trim()
+      const [jobId, job] = createJob(inputSource(input, base))
+      runValidation(job, params, input, base).catch(console.error)
       res.writeHead(200, { 'Content-Type': 'application/json' })
       res.end(JSON.stringify({ jobId }))
     })
@@ -253,7 +432,7 @@ const server = http.createServer(async (req, res) => {
       'Cache-Control': 'no-cache',
       Connection: 'keep-alive',
     })
-    for (const d of job.buffered) res.write(d)
+    for (const d of replay(job)) res.write(d)
     if (job.done) { res.end(); return }
     const listener = (d: string) => { res.write(d); if (d.includes('"stream_end"')) res.end() }
     job.listeners.add(listener)
@@ -261,15 +440,64 @@ const server = http.createServer(async (req, res) => {
     return
   }
 
+  if (req.method === 'GET' && url.pathname === '/api/jobs') {
+    const listing = (await store.list()).map((meta) => ({ ...meta, status: currentStatus(meta) }))
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ jobs: listing }))
+    return
+  }
+
+  const jobMatch = /^\/api\/jobs\/([^/]+)$/.exec(url.pathname)
+  if (req.method === 'GET' && jobMatch) {
+    const record = await store.load(jobMatch[1])
+    if (!record) { res.writeHead(404); res.end('Job not found'); return }
+    const { report, ...meta } = record
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({
+      ...meta,
+      status: currentStatus(meta),
+      summary: report?.summary ?? meta.summary,
+      pages: (report?.pages ?? []).map((page) => ({ ...page, messages: withIssueKeys(page.messages) })),
+      issues: topIssues(report?.issues),
+      sampling: report?.sampling,
+    }))
+    return
+  }
+
+  if (req.method === 'GET' && url.pathname === '/api/trends') {
+    const source = url.searchParams.get('source')
+    if (!source) { res.writeHead(400); res.end('Missing source'); return }
+    const runs = Math.max(2, parseInt(url.searchParams.get('runs') ?? '', 10) || DEFAULT_TREND_RUNS)
+    let trend: Trend
+    try {
+      trend = buildTrend(await history.read(source), runs)
+    } catch (err: unknown) {
+      res.writeHead(500)
+      res.end(err instanceof Error ? err.message : String(err))
+      return
+    }
+    if (url.searchParams.get('format') === 'html') {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+      res.end(generateTrendReport(trend))
+      return
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(trend))
+    return
+  }
+
   const reportMatch = /^\/api\/report\/([^/]+)$/.exec(url.pathname)
   if (req.method === 'GET' && reportMatch) {
-    const job = jobs.get(reportMatch[1])
-    if (!job || !job.report) { res.writeHead(404); res.end('Report not ready'); return }
+    const report = jobs.get(reportMatch[1])?.report ?? (await store.load(reportMatch[1]))?.report
+    if (!report) { res.writeHead(404); res.end('Report not ready'); return }
+    const format = url.searchParams.get('format') ?? 'html'
+    if (!isReportFormat(format)) { res.writeHead(400); res.end('Unknown report format'); return }
+    const filename = getOutputPath('w3c-report.html', format)
     res.writeHead(200, {
-      'Content-Type': 'text/html; charset=utf-8',
-      'Content-Disposition': 'attachment; filename="w3c-report.html"',
+      'Content-Type': getContentType(format),
+      'Content-Disposition': `attachment; filename="${filename}"`,
     })
-    res.end(job.report)
+    res.end(renderReport(report, format))
     return
   }
 
@@ -277,9 +505,11 @@ const server = http.createServer(async (req, res) => {
   if (req.method === 'POST' && abortMatch) {
     const job = jobs.get(abortMatch[1])
     if (!job) { res.writeHead(404); res.end('Job not found'); return }
+    if (job.done) { res.writeHead(409); res.end('Job already finished'); return }
     job.aborted = true
+    job.controller.abort()
     emit(job, { type: 'cancelled' })
-    endJob(job)
+    endJob(job, 'cancelled')
     res.writeHead(200, { 'Content-Type': 'application/json' })
     res.end(JSON.stringify({ ok: true }))
     return
@@ -289,8 +519,15 @@ const server = http.createServer(async (req, res) => {
   res.end('Not found')
 })
 
+setInterval(evictFinishedJobs, 60_000).unref()
+
 server.listen(PORT, () => {
   console.log()
   console.log(`  W3C_BATCH Validator  →  http://localhost:${PORT}`)
+  console.log(`  Nu validator         →  ${VALIDATOR_URL}`)
   console.log()
+  checkValidator(VALIDATOR_URL).catch((err: unknown) => {
+    const message = err instanceof Error ? err.message : String(err)
+    console.warn(`  Warning: ${message}`)
+  })
 })
@@ -1,8 +1,15 @@
-import axios from 'axios'
-import { XMLParser } from 'fast-xml-parser'
+import { gunzipSync } from 'zlib'
+import { XMLParser, XMLValidator } from 'fast-xml-parser'
+import { request } from './http.js'
+import { loadRobots } from './robots.js'
 
 const MAX_DEPTH = 3
 
+export interface SitemapEntry {
+  loc: string
+  lastmod?: string
+}
+
 const parser = new XMLParser({
   ignoreAttributes: false,
   parseTagValue: false,
@@ -10,10 +17,70 @@ const parser = new XMLParser({
   isArray: (name) => name === 'url' || name === 'sitemap',
 })
 
-export async function extractUrlsFromSitemap(
+function toEntries(items: Array<Record<string, string>>): SitemapEntry[] {
+  return items
+    .filter((item) => typeof item.loc === 'string' && item.loc.trim().length > 0)
+    .map((item) => ({
+      loc: item.loc.trim(),
+      lastmod: typeof item.lastmod === 'string' && item.lastmod.trim() ? item.lastmod.trim() : undefined,
+    }))
+}
+
+export function decodeSitemap(data: Buffer, maxBytes?: number): string {
+  const gzipped = data.length > 2 && data[0] === 0x1f && data[1] === 0x8b
+  if (!gzipped) return data.toString('utf-8')
+  try {
+    return gunzipSync(data, maxBytes !== undefined ? { maxOutputLength: maxBytes } : undefined).toString('utf-8')
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`Sitemap is larger than ${maxBytes} bytes once decompressed`)
+    }
+    const message = err instanceof Error ? err.message : String(err)
+    throw new Error(`Invalid gzip data: ${message}`)
+  }
+}
+
+export async function fetchSitemapXml(sitemapUrl: string, maxBytes?: number): Promise<string> {
+  const { response } = await request<ArrayBuffer>({
+    method: 'GET',
+    url: sitemapUrl,
+    responseType: 'arraybuffer',
+    timeout: 30000,
+    maxContentLength: maxBytes,
+  })
+  const xml = decodeSitemap(Buffer.from(response.data), maxBytes)
+  // Checked again after decoding so a small .gz cannot expand past the limit
+  if (maxBytes !== undefined && Buffer.byteLength(xml) > maxBytes) {
+    throw new Error(`Sitemap ${sitemapUrl} is larger than ${maxBytes} bytes`)
+  }
+  return xml
+}
+
+export async function discoverSitemaps(siteUrl: string): Promise<string[]> {
+  const origin = new URL(siteUrl).origin
+  const robots = await loadRobots(origin)
+  return robots.sitemaps.length > 0 ? robots.sitemaps : [`${origin}/sitemap.xml`]
+}
+
+export function isSiteRoot(url: string): boolean {
+  const parsed = new URL(url)
+  return (parsed.pathname === '/' || parsed.pathname === '') && !parsed.search
+}
+
+export function filterSince(entries: SitemapEntry[], since: Date | undefined): SitemapEntry[] {
+  if (!since) return entries
+  return entries.filter((entry) => {
+    if (!entry.lastmod) return true
+    const modified = Date.parse(entry.lastmod)
+    return Number.isNaN(modified) || modified >= since.getTime()
+  })
+}
+
+export async function extractEntriesFromSitemap(
   sitemapUrl: string,
+  since?: Date,
   depth = 0
-): Promise<string[]> {
+): Promise<SitemapEntry[]> {
   if (depth > MAX_DEPTH) {
     console.warn(`Max sitemap depth (${MAX_DEPTH}) reached, skipping: ${sitemapUrl}`)
     return []
@@ -21,67 +88,61 @@ export async function extractUrlsFromSitemap(
 
   let xmlText: string
   try {
-    const response = await axios.get<string>(sitemapUrl, {
-      responseType: 'text',
-      headers: { 'User-Agent': 'w3c_batch/1.0 (automated validator)' },
-      timeout: 30000,
-    })
-    xmlText = response.data
+    xmlText = await fetchSitemapXml(sitemapUrl)
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err)
     throw new Error(`Failed to fetch sitemap at ${sitemapUrl}: ${message}`)
   }
 
-  const parsed = parser.parse(xmlText) as Record<string, unknown>
+  const result = parseUrlsFromXml(xmlText, sitemapUrl)
 
-  if (parsed.sitemapindex) {
-    const index = parsed.sitemapindex as Record<string, unknown>
-    const sitemaps = (index.sitemap ?? []) as Array<Record<string, string>>
-    const urls: string[] = []
-    for (const entry of sitemaps) {
-      if (entry.loc) {
-        const nested = await extractUrlsFromSitemap(entry.loc, depth + 1)
-        urls.push(...nested)
-      }
+  if (result.kind === 'sitemapindex') {
+    const entries: SitemapEntry[] = []
+    // A child sitemap last modified before --since cannot list newer pages
+    for (const child of filterSince(result.sitemaps, since)) {
+      entries.push(...(await extractEntriesFromSitemap(child.loc, since, depth + 1)))
     }
-    return urls
+    return entries
   }
 
-  if (parsed.urlset) {
-    const urlset = parsed.urlset as Record<string, unknown>
-    const urlEntries = (urlset.url ?? []) as Array<Record<string, string>>
-    return urlEntries
-      .map((entry) => entry.loc)
-      .filter((loc): loc is string => typeof loc === 'string' && loc.length > 0)
-  }
+  return filterSince(result.entries, since)
+}
 
-  throw new Error(`Unrecognized sitemap format at ${sitemapUrl}`)
+export async function extractUrlsFromSitemap(sitemapUrl: string, since?: Date): Promise<string[]> {
+  const sitemapUrls = isSiteRoot(sitemapUrl) ? await discoverSitemaps(sitemapUrl) : [sitemapUrl]
+  const urls: string[] = []
+  for (const url of sitemapUrls) {
+    const entries = await extractEntriesFromSitemap(url, since)
+    urls.push(...entries.map((entry) => entry.loc))
+  }
+  return urls
 }
 
 export type ParseResult =
-  | { kind: 'urls'; urls: string[] }
-  | { kind: 'sitemapindex'; sitemapUrls: string[] }
+  | { kind: 'urls'; entries: SitemapEntry[] }
+  | { kind: 'sitemapindex'; sitemaps: SitemapEntry[] }
+
+export function parseUrlsFromXml(xmlText: string, source?: string): ParseResult {
+  const valid = XMLValidator.validate(xmlText)
+  if (valid !== true) {
+    const { line, col, msg } = valid.err
+    throw new Error(`Malformed sitemap XML${source ? ` at ${source}` : ''}, line ${line} column ${col}: ${msg}`)
+  }
 
-export function parseUrlsFromXml(xmlText: string): ParseResult {
   const parsed = parser.parse(xmlText) as Record<string, unknown>
 
   if (parsed.urlset) {
     const urlset = parsed.urlset as Record<string, unknown>
     const urlEntries = (urlset.url ?? []) as Array<Record<string, string>>
-    const urls = urlEntries
-      .map((entry) => entry.loc)
-      .filter((loc): loc is string => typeof loc === 'string' && loc.length > 0)
-    return { kind: 'urls', urls }
+    return { kind: 'urls', entries: toEntries(urlEntries) }
   }
 
   if (parsed.sitemapindex) {
     const index = parsed.sitemapindex as Record<string, unknown>
     const sitemaps = (index.sitemap ?? []) as Array<Record<string, string>>
-    const sitemapUrls = sitemaps
-      .map((entry) => entry.loc)
-      .filter((loc): loc is string => typeof loc === 'string' && loc.length > 0)
-    return { kind: 'sitemapindex', sitemapUrls }
+    return { kind: 'sitemapindex', sitemaps: toEntries(sitemaps) }
   }
 
+  if (source) throw new Error(`Unrecognized sitemap format at ${source}`)
   throw new Error('Unrecognized XML format. Expected a sitemap <urlset> with <url> entries.')
 }
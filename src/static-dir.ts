@@ -0,0 +1,142 @@
+import { readdir, readFile, stat } from 'fs/promises'
+import { extname, join, relative, resolve, sep } from 'path'
+import { decodeSitemap, filterSince, parseUrlsFromXml, type SitemapEntry } from './sitemap.js'
+
+export const DEFAULT_DIR_SITEMAP = 'sitemap.xml'
+const HTML_EXTENSIONS = new Set(['.html', '.htm'])
+
+/** A page of a static build, validated straight from its file. */
+export interface DirPage {
+  file: string
+  /** Path relative to the build directory, with forward slashes; pages are reported under it. */
+  path: string
+  /** URL that include/exclude patterns and sampling are matched against: the sitemap <loc>, or the path itself. */
+  match: string
+}
+
+export interface DirPageOptions {
+  /** Sitemap file inside the directory whose URLs are mapped to files, instead of walking the directory. */
+  sitemap?: string
+  since?: Date
+  maxSitemapBytes?: number
+}
+
+function toDirPath(root: string, file: string): string {
+  return relative(root, file).split(sep).join('/')
+}
+
+function inside(root: string, file: string): boolean {
+  return file.startsWith(root + sep)
+}
+
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile()
+  } catch {
+    return false
+  }
+}
+
+/** Every .html file below `dir`, sorted. Dot-directories, node_modules and symlinks are skipped. */
+export async function listHtmlFiles(dir: string): Promise<string[]> {
+  const files: string[] = []
+  const walk = async (current: string) => {
+    for (const entry of await readdir(current, { withFileTypes: true })) {
+      const path = join(current, entry.name)
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && entry.name !== 'node_modules') await walk(path)
+      } else if (entry.isFile() && HTML_EXTENSIONS.has(extname(entry.name).toLowerCase())) {
+        files.push(path)
+      }
+    }
+  }
+  await walk(dir)
+  return files.sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * Maps a site URL to the file a static build serves it from: /about/ to
+ * about/index.html, and /about to about.html or about/index.html. When no
+ * candidate exists the first one is returned, so the page fails with the
+ * missing path instead of silently disappearing from the run.
+ */
+export async function mapUrlToFile(url: string, dir: string): Promise<string> {
+  const root = resolve(dir)
+  let pathname = new URL(url).pathname
+  try {
+    pathname = decodeURIComponent(pathname)
+  } catch {
+    // A malformed escape is looked up as written
+  }
+
+  const candidates = pathname.endsWith('/')
+    ? [join(pathname, 'index.html')]
+    : extname(pathname)
+      ? [pathname]
+      : [`${pathname}.html`, join(pathname, 'index.html')]
+  const files = candidates.map((candidate) => join(root, candidate))
+  if (files.some((file) => !inside(root, file))) {
+    throw new Error(`${url} maps to a file outside ${root}`)
+  }
+
+  for (const file of files) {
+    if (await isFile(file)) return file
+  }
+  return files[0]
+}
+
+async function readSitemapFile(file: string, maxBytes?: number): Promise<string> {
+  let data: Buffer
+  try {
+    data = await readFile(file)
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err)
+    throw new Error(`Failed to read sitemap ${file}: ${message}`)
+  }
+  const xml = decodeSitemap(data, maxBytes)
+  if (maxBytes !== undefined && Buffer.byteLength(xml) > maxBytes) {
+    throw new Error(`Sitemap ${file} is larger than ${maxBytes} bytes`)
+  }
+  return xml
+}
+
+async function readSitemapEntries(root: string, options: DirPageOptions): Promise<SitemapEntry[]> {
+  const file = resolve(root, options.sitemap!)
+  const result = parseUrlsFromXml(await readSitemapFile(file, options.maxSitemapBytes), file)
+  if (result.kind === 'urls') return filterSince(result.entries, options.since)
+
+  // Nested sitemaps are listed under the production URL, but the build holds them too
+  const entries: SitemapEntry[] = []
+  for (const child of filterSince(result.sitemaps, options.since)) {
+    const childFile = await mapUrlToFile(child.loc, root)
+    const nested = parseUrlsFromXml(await readSitemapFile(childFile, options.maxSitemapBytes), childFile)
+    if (nested.kind === 'urls') entries.push(...filterSince(nested.entries, options.since))
+  }
+  return entries
+}
+
+/** Lists the pages of a static build directory, from its sitemap when one is named or else by walking it. */
+export async function findDirPages(dir: string, options: DirPageOptions = {}): Promise<DirPage[]> {
+  const root = resolve(dir)
+  let info
+  try {
+    info = await stat(root)
+  } catch {
+    throw new Error(`Directory ${root} does not exist`)
+  }
+  if (!info.isDirectory()) throw new Error(`${root} is not a directory`)
+
+  if (options.sitemap === undefined) {
+    return (await listHtmlFiles(root)).map((file) => {
+      const path = toDirPath(root, file)
+      return { file, path, match: new URL(path, 'file:///').href }
+    })
+  }
+
+  const pages: DirPage[] = []
+  for (const entry of await readSitemapEntries(root, options)) {
+    const file = await mapUrlToFile(entry.loc, root)
+    pages.push({ file, path: toDirPath(root, file), match: entry.loc })
+  }
+  return pages
+}
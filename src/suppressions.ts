@@ -0,0 +1,56 @@
+import { matchesUrlPattern } from './utils.js'
+import type { SuppressionRule } from './config.js'
+import type { W3CMessage } from './types.js'
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+const ONE_DAY = 24 * 60 * 60 * 1000
+
+export function isExpired(rule: SuppressionRule, now = Date.now()): boolean {
+  if (rule.expires === undefined) return false
+  // A date-only expiry keeps the rule active through the whole of that day
+  const expiresAt = Date.parse(rule.expires) + (DATE_ONLY.test(rule.expires) ? ONE_DAY : 0)
+  return now >= expiresAt
+}
+
+function describeRule(rule: SuppressionRule): string {
+  if (rule.reason) return rule.reason
+  const parts = Object.entries(rule)
+    .filter(([key]) => key !== 'expires')
+    .map(([key, value]) => `${key}=${String(value)}`)
+  return parts.join(', ')
+}
+
+function matches(rule: SuppressionRule, msg: W3CMessage, url: string): boolean {
+  if (rule.type !== undefined && rule.type !== msg.type) return false
+  if (rule.subType !== undefined && rule.subType !== msg.subType) return false
+  if (rule.message !== undefined && !msg.message.includes(rule.message)) return false
+  if (rule.messagePattern !== undefined && !new RegExp(rule.messagePattern).test(msg.message)) return false
+  if (rule.extract !== undefined && !(msg.extract ?? '').includes(rule.extract)) return false
+  if (rule.url !== undefined && !matchesUrlPattern(url, rule.url)) return false
+  return true
+}
+
+export function getActiveRules(rules: SuppressionRule[], now = Date.now()): SuppressionRule[] {
+  return rules.filter((rule) => !isExpired(rule, now))
+}
+
+export function partitionSuppressed(
+  messages: W3CMessage[],
+  url: string,
+  rules: SuppressionRule[]
+): { messages: W3CMessage[]; suppressed?: W3CMessage[] } {
+  if (rules.length === 0) return { messages }
+
+  const kept: W3CMessage[] = []
+  const suppressed: W3CMessage[] = []
+  for (const msg of messages) {
+    const rule = rules.find((r) => matches(r, msg, url))
+    if (rule) {
+      suppressed.push({ ...msg, suppressedBy: describeRule(rule) })
+    } else {
+      kept.push(msg)
+    }
+  }
+
+  return { messages: kept, suppressed: suppressed.length > 0 ? suppressed : undefined }
+}
@@ -0,0 +1,172 @@
+import type { IssueGrowth, Trend, TrendRun } from './history.js'
+
+const CHART_WIDTH = 880
+const CHART_HEIGHT = 240
+const CHART_PAD = 36
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function formatDate(iso: string): string {
+  return iso.replace('T', ' ').slice(0, 16)
+}
+
+function formatDelta(delta: number): string {
+  if (delta > 0) return `<span class="up">+${delta}</span>`
+  if (delta < 0) return `<span class="down">${delta}</span>`
+  return '<span class="flat">±0</span>'
+}
+
+function renderChart(runs: TrendRun[]): string {
+  const max = Math.max(1, ...runs.flatMap((run) => [run.totalErrors, run.totalWarnings]))
+  const innerWidth = CHART_WIDTH - CHART_PAD * 2
+  const innerHeight = CHART_HEIGHT - CHART_PAD * 2
+  const x = (i: number) => CHART_PAD + (runs.length > 1 ? (i / (runs.length - 1)) * innerWidth : innerWidth / 2)
+  const y = (value: number) => CHART_PAD + innerHeight - (value / max) * innerHeight
+
+  const series = (key: 'totalErrors' | 'totalWarnings', cls: string) => {
+    const points = runs.map((run, i) => `${x(i).toFixed(1)},${y(run[key]).toFixed(1)}`)
+    const dots = runs
+      .map((run, i) => `<circle class="${cls}" cx="${x(i).toFixed(1)}" cy="${y(run[key]).toFixed(1)}" r="3"><title>${escapeHtml(formatDate(run.generatedAt))}: ${run[key]}</title></circle>`)
+      .join('')
+    return `<polyline class="${cls}" points="${points.join(' ')}" />${dots}`
+  }
+
+  const first = runs[0]
+  const last = runs[runs.length - 1]
+
+  return `
+  <svg class="chart" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img" aria-label="Errors and warnings per run">
+    <line class="axis" x1="${CHART_PAD}" y1="${CHART_PAD + innerHeight}" x2="${CHART_WIDTH - CHART_PAD}" y2="${CHART_PAD + innerHeight}" />
+    <line class="grid" x1="${CHART_PAD}" y1="${CHART_PAD}" x2="${CHART_WIDTH - CHART_PAD}" y2="${CHART_PAD}" />
+    <text class="label" x="${CHART_PAD - 6}" y="${CHART_PAD + 4}" text-anchor="end">${max}</text>
+    <text class="label" x="${CHART_PAD - 6}" y="${CHART_PAD + innerHeight + 4}" text-anchor="end">0</text>
+    ${series('totalWarnings', 'warnings')}
+    ${series('totalErrors', 'errors')}
+    <text class="label" x="${CHART_PAD}" y="${CHART_HEIGHT - 10}">${escapeHtml(formatDate(first.generatedAt))}</text>
+    <text class="label" x="${CHART_WIDTH - CHART_PAD}" y="${CHART_HEIGHT - 10}" text-anchor="end">${escapeHtml(formatDate(last.generatedAt))}</text>
+  </svg>
+  <div class="legend"><span class="key errors">Errors</span><span class="key warnings">Warnings</span></div>`
+}
+
+function renderRuns(runs: TrendRun[]): string {
+  const rows = runs.map((run, i) => {
+    const previous = runs[i - 1]
+    const errorDelta = previous ? formatDelta(run.totalErrors - previous.totalErrors) : ''
+    return `
+      <tr>
+        <td>${escapeHtml(formatDate(run.generatedAt))}</td>
+        <td>${run.totalPages}</td>
+        <td>${run.totalErrors} ${errorDelta}</td>
+        <td>${run.totalWarnings}</td>
+        <td>${run.pagesWithErrors}</td>
+        <td>${run.pagesFailed}</td>
+        <td class="${run.regressed > 0 ? 'up' : ''}">${previous ? run.regressed : '—'}</td>
+        <td class="${run.fixed > 0 ? 'down' : ''}">${previous ? run.fixed : '—'}</td>
+      </tr>`
+  }).reverse().join('')
+
+  return `
+  <section>
+    <h2>Runs</h2>
+    <table>
+      <thead><tr><th>Run</th><th>Pages</th><th>Errors</th><th>Warnings</th><th>Pages with errors</th><th>Failed</th><th>Regressed</th><th>Fixed</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+    <p class="note">Regressed: pages with errors that had none in the run before. Fixed: pages that lost all their errors.</p>
+  </section>`
+}
+
+function renderGrown(grown: IssueGrowth[], runs: TrendRun[]): string {
+  if (runs.length < 2) return ''
+  const rows = grown.map((issue) => `
+      <tr class="issue-${issue.type}">
+        <td class="template">${escapeHtml(issue.template)}</td>
+        <td>${issue.previousPages} → ${issue.pages} ${formatDelta(issue.pages - issue.previousPages)}</td>
+        <td>${issue.previousOccurrences} → ${issue.occurrences} ${formatDelta(issue.occurrences - issue.previousOccurrences)}</td>
+      </tr>`).join('')
+
+  return `
+  <section>
+    <h2>Issues that grew since ${escapeHtml(formatDate(runs[0].generatedAt))}</h2>
+    ${grown.length > 0
+      ? `<table>
+      <thead><tr><th>Issue</th><th>Pages</th><th>Occurrences</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`
+      : '<p class="note">No issue reaches more pages than it did in the first run.</p>'}
+  </section>`
+}
+
+export function generateTrendReport(trend: Trend): string {
+  const { runs } = trend
+  const body = runs.length === 0
+    ? '<p class="note">No runs recorded yet.</p>'
+    : `${renderChart(runs)}${renderRuns(runs)}${renderGrown(trend.grown, runs)}`
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>W3C Validation Trend — ${escapeHtml(trend.source)}</title>
+  <style>
+    *, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }
+    :root {
+      --color-error: #dc2626;
+      --color-warning: #d97706;
+      --color-info: #2563eb;
+      --color-clean: #16a34a;
+      --color-bg: #0f172a;
+      --color-surface: #1e293b;
+      --color-text: #e2e8f0;
+      --color-text-muted: #94a3b8;
+      --color-border: #334155;
+    }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: var(--color-bg); color: var(--color-text);
+      font-size: 14px; line-height: 1.5; padding: 24px; max-width: 960px; margin: 0 auto;
+    }
+    h1 { font-size: 18px; margin-bottom: 4px; }
+    h2 { font-size: 15px; margin: 28px 0 10px; }
+    .source { color: var(--color-text-muted); font-family: 'SF Mono', 'Fira Code', monospace; font-size: 13px; margin-bottom: 20px; }
+    .chart { width: 100%; height: auto; background: var(--color-surface); border: 1px solid var(--color-border); border-radius: 8px; }
+    .chart polyline { fill: none; stroke-width: 2; }
+    .chart polyline.errors { stroke: var(--color-error); }
+    .chart polyline.warnings { stroke: var(--color-warning); }
+    .chart circle.errors { fill: var(--color-error); }
+    .chart circle.warnings { fill: var(--color-warning); }
+    .chart .axis, .chart .grid { stroke: var(--color-border); }
+    .chart .grid { stroke-dasharray: 4 4; }
+    .chart .label { fill: var(--color-text-muted); font-size: 11px; }
+    .legend { display: flex; gap: 16px; margin-top: 6px; font-size: 12px; color: var(--color-text-muted); }
+    .legend .key::before { content: ''; display: inline-block; width: 10px; height: 10px; margin-right: 6px; border-radius: 2px; }
+    .legend .errors::before { background: var(--color-error); }
+    .legend .warnings::before { background: var(--color-warning); }
+    table { width: 100%; border-collapse: collapse; font-size: 12px; background: var(--color-surface); border-radius: 8px; overflow: hidden; }
+    th, td { padding: 6px 12px; text-align: left; vertical-align: top; border-top: 1px solid var(--color-border); }
+    th { color: var(--color-text-muted); font-weight: 600; }
+    .template { font-size: 13px; }
+    .issue-error .template { color: #fca5a5; }
+    .issue-warning .template { color: #fcd34d; }
+    .issue-info .template { color: #93c5fd; }
+    .up { color: var(--color-error); font-weight: 600; }
+    .down { color: var(--color-clean); font-weight: 600; }
+    .flat { color: var(--color-text-muted); }
+    .note { color: var(--color-text-muted); font-size: 12px; font-style: italic; margin-top: 8px; }
+  </style>
+</head>
+<body>
+  <h1>W3C Validation Trend</h1>
+  <div class="source">${escapeHtml(trend.source)} — ${runs.length} run${runs.length !== 1 ? 's' : ''}</div>
+  ${body}
+</body>
+</html>`
+}
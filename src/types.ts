@@ -1,5 +1,7 @@
 export type MessageType = 'error' | 'warning' | 'info'
 
+export type MessageDelta = 'new' | 'unchanged' | 'fixed'
+
 export interface W3CMessage {
   type: MessageType
   message: string
@@ -9,6 +11,8 @@ export interface W3CMessage {
   firstColumn?: number
   lastColumn?: number
   subType?: string
+  delta?: MessageDelta
+  suppressedBy?: string
 }
 
 export type PageStatus = 'clean' | 'warnings' | 'errors' | 'failed'
@@ -16,10 +20,21 @@ export type PageStatus = 'clean' | 'warnings' | 'errors' | 'failed'
 export interface PageResult {
   url: string
   sourceUrl: string
+  /** URL that suppressions and budgets match, when it is not `url`: a --dir page's sitemap URL or site path. */
+  matchUrl?: string
   messages: W3CMessage[]
   status: PageStatus
   errorMessage?: string
   duration?: number
+  attempts?: number
+  fallbackReason?: string
+  cached?: boolean
+  fixed?: W3CMessage[]
+  suppressed?: W3CMessage[]
+  /** Fetched HTML, kept for the report's source viewer when requested. */
+  source?: string
+  /** The source was cut at a line boundary to stay within the size cap. */
+  sourceTruncated?: boolean
 }
 
 export interface ReportSummary {
@@ -31,11 +46,72 @@ export interface ReportSummary {
   totalErrors: number
   totalWarnings: number
   totalInfos: number
+  totalSuppressed?: number
+  cacheHits?: number
+  cssStylesheets?: number
+  cssErrors?: number
+  cssWarnings?: number
   generatedAt: string
   sitemapUrl: string
+  baseline?: BaselineSummary
+}
+
+export interface BaselineSummary {
+  file: string
+  newErrors: number
+  newWarnings: number
+  fixedErrors: number
+  fixedWarnings: number
+  unchanged: number
+}
+
+export interface DiscoverySummary {
+  crawledPages: number
+  truncated: boolean
+  notInSitemap: string[]
+  unlinked: string[]
+}
+
+export interface SampleGroup {
+  pattern: string
+  total: number
+  sampled: number
+  urls: string[]
+}
+
+export interface SamplingSummary {
+  perGroup: number
+  groups: SampleGroup[]
+}
+
+export interface CssResult {
+  id: string
+  url?: string
+  inline: boolean
+  pages: string[]
+  messages: W3CMessage[]
+  status: PageStatus
+  errorMessage?: string
+}
+
+/** Messages that differ only in quoted names, values or numbers, grouped across pages. */
+export interface IssueGroup {
+  key: string
+  type: MessageType
+  template: string
+  /** Distinct pages the issue appears on. */
+  pages: number
+  occurrences: number
+  urls: string[]
+  /** Up to three distinct original messages. */
+  examples: string[]
 }
 
 export interface Report {
   summary: ReportSummary
   pages: PageResult[]
+  issues?: IssueGroup[]
+  css?: CssResult[]
+  discovery?: DiscoverySummary
+  sampling?: SamplingSummary
 }
@@ -0,0 +1,105 @@
+import { compileUrlPattern, matchesUrlPattern } from './utils.js'
+import type { SampleGroup } from './types.js'
+
+export interface UrlFilterOptions {
+  include: string[]
+  exclude: string[]
+  maxPages?: number
+  samplePerGroup?: number
+}
+
+const MIN_GROUP_VARIANTS = 5
+const NUMERIC_SEGMENT = /^\d+$/
+
+export function validateUrlPatterns(patterns: string[]): void {
+  patterns.forEach(compileUrlPattern)
+}
+
+export function filterUrls<T>(items: T[], getUrl: (item: T) => string, options: UrlFilterOptions): T[] {
+  return items.filter((item) => {
+    const url = getUrl(item)
+    if (options.exclude.some((pattern) => matchesUrlPattern(url, pattern))) return false
+    return options.include.length === 0 || options.include.some((pattern) => matchesUrlPattern(url, pattern))
+  })
+}
+
+function pathSegments(url: string): string[] {
+  return new URL(url).pathname.split('/').filter(Boolean)
+}
+
+export function inferTemplates(urls: string[]): string[] {
+  const segments = urls.map(pathSegments)
+  const templates = segments.map((parts) => parts.map((part) => (NUMERIC_SEGMENT.test(part) ? ':id' : part)))
+  const maxLength = Math.max(0, ...segments.map((parts) => parts.length))
+
+  // The first segment is left alone: top-level sections usually have distinct templates
+  for (let depth = 1; depth < maxLength; depth++) {
+    const variants = new Map<string, Set<string>>()
+    templates.forEach((parts) => {
+      if (parts.length <= depth) return
+      const prefix = parts.slice(0, depth).join('/')
+      if (!variants.has(prefix)) variants.set(prefix, new Set())
+      variants.get(prefix)!.add(parts[depth])
+    })
+
+    templates.forEach((parts) => {
+      if (parts.length <= depth || parts[depth] === ':id') return
+      const prefix = parts.slice(0, depth).join('/')
+      if (variants.get(prefix)!.size >= MIN_GROUP_VARIANTS) parts[depth] = ':slug'
+    })
+  }
+
+  return templates.map((parts) => '/' + parts.join('/'))
+}
+
+function spread<T>(items: T[], count: number): T[] {
+  if (items.length <= count) return items
+  return Array.from({ length: count }, (_, i) => items[Math.floor((i * items.length) / count)])
+}
+
+export function samplePages<T>(
+  items: T[],
+  getUrl: (item: T) => string,
+  perGroup: number
+): { items: T[]; groups: SampleGroup[] } {
+  const templates = inferTemplates(items.map(getUrl))
+  const grouped = new Map<string, T[]>()
+  items.forEach((item, i) => {
+    grouped.set(templates[i], [...(grouped.get(templates[i]) ?? []), item])
+  })
+
+  const sampled = new Set<T>()
+  const groups: SampleGroup[] = []
+  for (const [pattern, members] of grouped) {
+    const picked = spread(members, perGroup)
+    picked.forEach((item) => sampled.add(item))
+    groups.push({ pattern, total: members.length, sampled: picked.length, urls: picked.map(getUrl) })
+  }
+
+  groups.sort((a, b) => b.total - a.total)
+  return { items: items.filter((item) => sampled.has(item)), groups }
+}
+
+export function applyUrlFilters<T>(
+  items: T[],
+  getUrl: (item: T) => string,
+  options: UrlFilterOptions
+): { items: T[]; groups?: SampleGroup[] } {
+  let selected = filterUrls(items, getUrl, options)
+  let groups: SampleGroup[] | undefined
+  if (options.samplePerGroup !== undefined && options.samplePerGroup > 0) {
+    const sample = samplePages(selected, getUrl, options.samplePerGroup)
+    selected = sample.items
+    groups = sample.groups
+  }
+  if (options.maxPages !== undefined && options.maxPages > 0 && selected.length > options.maxPages) {
+    selected = selected.slice(0, options.maxPages)
+    // Groups only list the sampled pages that survived the cap
+    const kept = new Set(selected.map(getUrl))
+    groups = groups?.map((group) => {
+      const urls = group.urls.filter((url) => kept.has(url))
+      return { ...group, sampled: urls.length, urls }
+    })
+  }
+  return { items: selected, groups }
+}
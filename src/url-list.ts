@@ -0,0 +1,33 @@
+const MAX_QUOTED = 80
+
+function quote(text: string): string {
+  return `"${text.length > MAX_QUOTED ? text.slice(0, MAX_QUOTED - 1) + '…' : text}"`
+}
+
+/**
+ * Parses a plain URL list: one http(s) URL per line. Blank lines and lines
+ * starting with # are skipped. Errors name the offending line; a list with
+ * no URLs is returned empty, so callers decide whether that is an error.
+ */
+export function parseUrlList(text: string, source = 'URL list'): string[] {
+  const urls: string[] = []
+  const lines = text.split(/\r?\n/)
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+    if (!line || line.startsWith('#')) continue
+
+    let parsed: URL
+    try {
+      parsed = new URL(line)
+    } catch {
+      throw new Error(`${source}, line ${i + 1}: ${quote(line)} is not a URL`)
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new Error(`${source}, line ${i + 1}: ${quote(line)} is not an http(s) URL`)
+    }
+    urls.push(line)
+  }
+
+  return urls
+}
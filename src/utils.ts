@@ -28,3 +28,48 @@ export function isLocalhost(url: string): boolean {
     return url.includes('localhost') || url.includes('127.0.0.1')
   }
 }
+
+/** Pages of a static build directory are addressed by file: URLs. */
+export function isFileUrl(url: string): boolean {
+  return url.startsWith('file:')
+}
+
+export function globToRegExp(glob: string): RegExp {
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*'
+      i++
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+const REGEX_PREFIX = 're:'
+
+export function compileUrlPattern(pattern: string): RegExp {
+  if (!pattern.startsWith(REGEX_PREFIX)) return globToRegExp(pattern)
+  try {
+    return new RegExp(pattern.slice(REGEX_PREFIX.length))
+  } catch {
+    throw new Error(`Invalid regular expression in URL pattern "${pattern}"`)
+  }
+}
+
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  const regex = compileUrlPattern(pattern)
+  if (pattern.startsWith(REGEX_PREFIX) || !pattern.startsWith('/')) return regex.test(url)
+  try {
+    const parsed = new URL(url)
+    return regex.test(parsed.pathname) || regex.test(parsed.pathname + parsed.search)
+  } catch {
+    return false
+  }
+}
@@ -1,8 +1,42 @@
-import axios from 'axios'
+import { readFile } from 'fs/promises'
+import { fileURLToPath } from 'url'
+import { RequestError, request } from './http.js'
+import { hashContent, type CacheEntry, type PageCache } from './cache.js'
+import { isFileUrl, isLocalhost } from './utils.js'
+import { hasSiteAuth } from './auth.js'
 import type { W3CMessage } from './types.js'
 
-const W3C_VALIDATOR_URL = 'https://validator.w3.org/nu/?out=json'
-const USER_AGENT = 'w3c_batch/1.0 (automated validator)'
+export const DEFAULT_VALIDATOR_URL = 'https://validator.w3.org/nu/'
+const HEALTH_CHECK_HTML = '<!DOCTYPE html><html lang="en"><head><title>w3c_batch</title></head><body></body></html>'
+
+export interface ValidatorDefaults {
+  delay: number
+  concurrency: number
+}
+
+export type ValidationStage = 'fetching' | 'validating'
+
+export interface PageValidation {
+  messages: W3CMessage[]
+  attempts: number
+  fallbackReason?: string
+  cached?: boolean
+  html?: string
+}
+
+export interface ValidatePageOptions {
+  validatorUrl: string
+  cache?: PageCache
+  onStage?: (stage: ValidationStage) => void
+}
+
+interface FetchedPage {
+  html: string
+  attempts: number
+  notModified: boolean
+  etag?: string
+  lastModified?: string
+}
 
 interface W3CApiResponse {
   messages: Array<{
@@ -23,6 +57,24 @@ function normalizeType(type: string, subType?: string): W3CMessage['type'] {
   return 'info'
 }
 
+function validatorEndpoint(validatorUrl: string, doc?: string): string {
+  const endpoint = new URL(validatorUrl)
+  endpoint.searchParams.set('out', 'json')
+  if (doc !== undefined) endpoint.searchParams.set('doc', doc)
+  return endpoint.toString()
+}
+
+const PUBLIC_VALIDATOR_HOSTS = ['validator.w3.org', 'jigsaw.w3.org']
+
+export function isPublicValidator(validatorUrl: string): boolean {
+  return PUBLIC_VALIDATOR_HOSTS.includes(new URL(validatorUrl).hostname)
+}
+
+export function getValidatorDefaults(validatorUrl: string): ValidatorDefaults {
+  if (isPublicValidator(validatorUrl)) return { delay: 1000, concurrency: 1 }
+  return { delay: 0, concurrency: 4 }
+}
+
 function mapMessages(data: W3CApiResponse): W3CMessage[] {
   return data.messages.map((msg) => ({
     type: normalizeType(msg.type, msg.subType),
@@ -36,31 +88,163 @@ function mapMessages(data: W3CApiResponse): W3CMessage[] {
   }))
 }
 
-export async function fetchPageHtml(url: string): Promise<string> {
-  const response = await axios.get<string>(url, {
+function headerValue(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined
+}
+
+async function fetchPage(url: string, cached?: CacheEntry): Promise<FetchedPage> {
+  if (isFileUrl(url)) {
+    return { html: await readFile(fileURLToPath(url), 'utf-8'), attempts: 1, notModified: false }
+  }
+
+  const headers: Record<string, string> = {}
+  if (cached?.etag) headers['If-None-Match'] = cached.etag
+  if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified
+
+  const { response, attempts } = await request<string>({
+    method: 'GET',
+    url,
     responseType: 'text',
-    headers: { 'User-Agent': USER_AGENT },
+    headers,
     timeout: 30000,
+    validateStatus: (status) => (status >= 200 && status < 300) || (status === 304 && cached !== undefined),
   })
-  return response.data
+  return {
+    html: response.status === 304 ? '' : response.data,
+    attempts,
+    notModified: response.status === 304,
+    etag: headerValue(response.headers.etag),
+    lastModified: headerValue(response.headers['last-modified']),
+  }
 }
 
-export async function validateHtml(html: string): Promise<W3CMessage[]> {
-  const response = await axios.post<W3CApiResponse>(W3C_VALIDATOR_URL, html, {
-    headers: {
-      'Content-Type': 'text/html; charset=utf-8',
-      'User-Agent': USER_AGENT,
-    },
+async function postHtml(html: string, validatorUrl: string): Promise<{ messages: W3CMessage[]; attempts: number }> {
+  const { response, attempts } = await request<W3CApiResponse>({
+    method: 'POST',
+    url: validatorEndpoint(validatorUrl),
+    data: html,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
     timeout: 60000,
   })
-  return mapMessages(response.data)
+  return { messages: mapMessages(response.data), attempts }
 }
 
-export async function validateUrl(url: string): Promise<W3CMessage[]> {
-  const reqUrl = `${W3C_VALIDATOR_URL}&doc=${encodeURIComponent(url)}`
-  const response = await axios.get<W3CApiResponse>(reqUrl, {
-    headers: { 'User-Agent': USER_AGENT },
+async function getByUrl(url: string, validatorUrl: string): Promise<{ messages: W3CMessage[]; attempts: number }> {
+  const { response, attempts } = await request<W3CApiResponse>({
+    method: 'GET',
+    url: validatorEndpoint(validatorUrl, url),
     timeout: 60000,
   })
-  return mapMessages(response.data)
+  const unreachable = response.data.messages.find((msg) => msg.type === 'non-document-error')
+  if (unreachable) {
+    throw new Error(`Validator could not load the page: ${unreachable.message}`)
+  }
+  return { messages: mapMessages(response.data), attempts }
+}
+
+export async function checkValidator(validatorUrl: string): Promise<void> {
+  let data: unknown
+  try {
+    const { response } = await request<unknown>({
+      method: 'POST',
+      url: validatorEndpoint(validatorUrl),
+      data: HEALTH_CHECK_HTML,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      timeout: 15000,
+    })
+    data = response.data
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err)
+    throw new Error(`Validator at ${validatorUrl} is unreachable: ${message}`)
+  }
+
+  const messages = data && typeof data === 'object' ? (data as Record<string, unknown>).messages : undefined
+  if (!Array.isArray(messages)) {
+    throw new Error(`Validator at ${validatorUrl} did not answer with Nu JSON output (is it a Nu validator?)`)
+  }
+}
+
+export async function fetchPageHtml(url: string): Promise<string> {
+  return (await fetchPage(url)).html
+}
+
+export async function validateHtml(html: string, validatorUrl = DEFAULT_VALIDATOR_URL): Promise<W3CMessage[]> {
+  return (await postHtml(html, validatorUrl)).messages
+}
+
+export async function validateUrl(url: string, validatorUrl = DEFAULT_VALIDATOR_URL): Promise<W3CMessage[]> {
+  return (await getByUrl(url, validatorUrl)).messages
+}
+
+/** Attempts of a fetch followed by a validation: a run without retries counts 1, like a single request. */
+function retriedAttempts(fetchAttempts: number, postAttempts: number): number {
+  return fetchAttempts - 1 + postAttempts
+}
+
+async function validateWithCache(
+  url: string,
+  validatorUrl: string,
+  cache: PageCache,
+  onStage: (stage: ValidationStage) => void
+): Promise<PageValidation> {
+  const cached = await cache.read(url, validatorUrl)
+
+  onStage('fetching')
+  const page = await fetchPage(url, cached)
+  const hash = page.notModified && cached ? cached.hash : hashContent(page.html)
+
+  if (cached && hash === cached.hash) {
+    await cache.write({ ...cached, etag: page.etag ?? cached.etag, lastModified: page.lastModified ?? cached.lastModified })
+    return { messages: cached.messages, attempts: page.attempts, cached: true, html: page.notModified ? undefined : page.html }
+  }
+
+  onStage('validating')
+  const { messages, attempts } = await postHtml(page.html, validatorUrl)
+  await cache.write({
+    url,
+    validatorUrl,
+    hash,
+    etag: page.etag,
+    lastModified: page.lastModified,
+    messages,
+    validatedAt: new Date().toISOString(),
+  })
+  return { messages, attempts: retriedAttempts(page.attempts, attempts), cached: false, html: page.html }
+}
+
+export async function validatePage(url: string, options: ValidatePageOptions): Promise<PageValidation> {
+  const { validatorUrl, cache, onStage = () => {} } = options
+  if (cache) return validateWithCache(url, validatorUrl, cache, onStage)
+
+  let fallbackReason: string | undefined
+  // Attempts of a failed validation by URL, counted on top of the fallback
+  let failedAttempts = 0
+
+  // The validator cannot log in or read local files, so those pages are always fetched here
+  if (!isLocalhost(url) && !isFileUrl(url) && !hasSiteAuth(url)) {
+    try {
+      onStage('validating')
+      return await getByUrl(url, validatorUrl)
+    } catch (err: unknown) {
+      fallbackReason = err instanceof Error ? err.message : String(err)
+      failedAttempts = err instanceof RequestError ? err.attempts : 1
+    }
+  }
+
+  let fetchAttempts = 1
+  try {
+    onStage('fetching')
+    const page = await fetchPage(url)
+    fetchAttempts = page.attempts
+    onStage('validating')
+    const validation = await postHtml(page.html, validatorUrl)
+    const attempts = failedAttempts + retriedAttempts(page.attempts, validation.attempts)
+    return { messages: validation.messages, attempts, fallbackReason, html: page.html }
+  } catch (err: unknown) {
+    if (!fallbackReason) throw err
+    const message = err instanceof Error ? err.message : String(err)
+    // A failed fetch counts its own attempts; a failed validation comes after a successful fetch
+    const attempts = failedAttempts + (err instanceof RequestError ? err.attempts : 1) + fetchAttempts - 1
+    throw new RequestError(`${message} (fell back to fetching the page after: ${fallbackReason})`, attempts)
+  }
 }
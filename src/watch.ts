@@ -0,0 +1,224 @@
+import { existsSync, watch, type FSWatcher } from 'fs'
+import pLimit from 'p-limit'
+import { hashContent } from './cache.js'
+import { messageKey } from './baseline.js'
+import { fetchPageHtml, validateHtml } from './validator.js'
+import { partitionSuppressed } from './suppressions.js'
+import { captureSource, getPageStatus, redactResult } from './runner.js'
+import { sleep } from './utils.js'
+import type { SuppressionRule } from './config.js'
+import type { PageResult, W3CMessage } from './types.js'
+
+export const DEFAULT_WATCH_INTERVAL_SECONDS = 30
+export const LIVE_REPORT_REFRESH_SECONDS = 5
+const DEBOUNCE_MS = 300
+const REWATCH_MS = 1000
+
+export interface PageWatcherOptions {
+  validatorUrl: string
+  suppressions?: SuppressionRule[]
+  concurrency?: number
+  /** Pause after each page that was validated again. */
+  delay?: number
+  /** Refresh the embedded source of re-validated pages, up to this many bytes. */
+  sourceMaxBytes?: number
+  /** Removes credentials from new results, as the run did for the first ones. */
+  redact?: (text: string) => string
+}
+
+export interface PageChange {
+  index: number
+  previous: PageResult
+  result: PageResult
+  /** Errors and warnings that were not on the page before. */
+  added: W3CMessage[]
+  /** Errors and warnings that are gone. */
+  resolved: W3CMessage[]
+}
+
+export interface PageWatcher {
+  /** Records the pages' current HTML, so the first check only re-validates what changed after the run. */
+  prime(pages: PageResult[]): Promise<void>
+  /** Fetches every page and re-validates those whose HTML changed, or that failed last time. */
+  check(pages: PageResult[]): Promise<PageChange[]>
+}
+
+function isReported(msg: W3CMessage): boolean {
+  return msg.type === 'error' || msg.type === 'warning'
+}
+
+/** Matches messages by type and text, counting repeats, so a duplicate that goes away shows as resolved. */
+export function diffMessages(before: W3CMessage[], after: W3CMessage[]): { added: W3CMessage[]; resolved: W3CMessage[] } {
+  const unmatched = new Map<string, number>()
+  for (const msg of before) unmatched.set(messageKey(msg), (unmatched.get(messageKey(msg)) ?? 0) + 1)
+
+  const added: W3CMessage[] = []
+  for (const msg of after) {
+    const count = unmatched.get(messageKey(msg)) ?? 0
+    if (count > 0) unmatched.set(messageKey(msg), count - 1)
+    else added.push(msg)
+  }
+
+  const resolved: W3CMessage[] = []
+  for (const msg of before) {
+    const count = unmatched.get(messageKey(msg)) ?? 0
+    if (count === 0) continue
+    resolved.push(msg)
+    unmatched.set(messageKey(msg), count - 1)
+  }
+  return { added, resolved }
+}
+
+export function createPageWatcher(options: PageWatcherOptions): PageWatcher {
+  const hashes = new Map<string, string>()
+  const limit = pLimit(options.concurrency ?? 1)
+  const redact = (result: PageResult) => options.redact ? redactResult(result, options.redact) : result
+
+  async function recheck(previous: PageResult, index: number): Promise<PageChange | undefined> {
+    const startTime = Date.now()
+    let html: string
+    try {
+      html = await fetchPageHtml(previous.url)
+    } catch (err: unknown) {
+      hashes.delete(previous.url)
+      if (previous.status === 'failed') return undefined
+      const errorMessage = err instanceof Error ? err.message : String(err)
+      const result: PageResult = { url: previous.url, sourceUrl: previous.sourceUrl, matchUrl: previous.matchUrl, messages: [], status: 'failed', errorMessage }
+      return { index, previous, result: redact(result), added: [], resolved: previous.messages.filter(isReported) }
+    }
+
+    const hash = hashContent(html)
+    if (hashes.get(previous.url) === hash && previous.status !== 'failed') return undefined
+    hashes.set(previous.url, hash)
+
+    let result: PageResult
+    try {
+      const messages = await validateHtml(html, options.validatorUrl)
+      const validated = partitionSuppressed(messages, previous.matchUrl ?? previous.url, options.suppressions ?? [])
+      result = {
+        url: previous.url,
+        sourceUrl: previous.sourceUrl,
+        matchUrl: previous.matchUrl,
+        messages: validated.messages,
+        status: getPageStatus(validated.messages),
+        duration: Date.now() - startTime,
+        suppressed: validated.suppressed,
+        ...(options.sourceMaxBytes !== undefined ? captureSource(html, options.sourceMaxBytes) : {}),
+      }
+    } catch (err: unknown) {
+      // Validated again on the next check, even if the page stays the same
+      hashes.delete(previous.url)
+      const errorMessage = err instanceof Error ? err.message : String(err)
+      result = { url: previous.url, sourceUrl: previous.sourceUrl, matchUrl: previous.matchUrl, messages: [], status: 'failed', errorMessage }
+    }
+    if (options.delay) await sleep(options.delay)
+
+    result = redact(result)
+    const { added, resolved } = diffMessages(previous.messages.filter(isReported), result.messages.filter(isReported))
+    return { index, previous, result, added, resolved }
+  }
+
+  return {
+    async prime(pages) {
+      await Promise.all(pages.map((page) => limit(async () => {
+        if (page.status === 'failed') return
+        const html = await fetchPageHtml(page.url).catch(() => undefined)
+        if (html !== undefined) hashes.set(page.url, hashContent(html))
+      })))
+    },
+
+    async check(pages) {
+      const changes = await Promise.all(pages.map((page, index) => limit(() => recheck(page, index))))
+      return changes.filter((change): change is PageChange => change !== undefined)
+    },
+  }
+}
+
+function isIgnored(file: string | null): boolean {
+  return !!file && file.split(/[\\/]/).some((part) => part === 'node_modules' || part.startsWith('.'))
+}
+
+/**
+ * Calls `onTrigger` when a file below one of `dirs` changes (debounced) and
+ * every `intervalMs`. Calls never overlap: a trigger during a running check
+ * queues one more check after it. A directory that is deleted or whose
+ * watcher fails is watched again once it exists, and `onLost` says so.
+ * Returns a function that stops watching.
+ */
+export function watchForChanges(
+  dirs: string[],
+  intervalMs: number | undefined,
+  onTrigger: (reason: string) => Promise<void>,
+  onLost?: (dir: string, reason: string) => void
+): () => void {
+  let running = false
+  let queued: string | undefined
+  let debounce: NodeJS.Timeout | undefined
+  let stopped = false
+  const watchers = new Map<string, FSWatcher>()
+  const rewatch = new Map<string, NodeJS.Timeout>()
+
+  const fire = (reason: string) => {
+    if (running) {
+      queued = reason
+      return
+    }
+    running = true
+    // Callers report their own failures; a rejected check must not stop the watch
+    onTrigger(reason).catch(() => undefined).finally(() => {
+      running = false
+      const next = queued
+      queued = undefined
+      if (next !== undefined) fire(next)
+    })
+  }
+
+  // Build tools often wipe their output directory, which ends a watcher with or without an error
+  const lose = (dir: string, watcher: FSWatcher, reason: string) => {
+    if (watchers.get(dir) !== watcher) return
+    watcher.close()
+    watchers.delete(dir)
+    onLost?.(dir, reason)
+    const poll = () => {
+      if (stopped) return
+      if (!existsSync(dir)) {
+        rewatch.set(dir, setTimeout(poll, REWATCH_MS))
+        return
+      }
+      try {
+        arm(dir)
+      } catch {
+        rewatch.set(dir, setTimeout(poll, REWATCH_MS))
+        return
+      }
+      rewatch.delete(dir)
+      fire(`${dir} is back`)
+    }
+    rewatch.set(dir, setTimeout(poll, REWATCH_MS))
+  }
+
+  const arm = (dir: string) => {
+    const watcher: FSWatcher = watch(dir, { recursive: true }, (_event, file) => {
+      if (!existsSync(dir)) {
+        lose(dir, watcher, 'it was removed')
+        return
+      }
+      if (isIgnored(file)) return
+      clearTimeout(debounce)
+      debounce = setTimeout(() => fire(file ? `${file} changed` : `${dir} changed`), DEBOUNCE_MS)
+    })
+    watcher.on('error', (err) => lose(dir, watcher, err.message))
+    watchers.set(dir, watcher)
+  }
+
+  for (const dir of dirs) arm(dir)
+  const timer = intervalMs !== undefined ? setInterval(() => fire('interval'), intervalMs) : undefined
+
+  return () => {
+    stopped = true
+    clearTimeout(debounce)
+    clearInterval(timer)
+    for (const retry of rewatch.values()) clearTimeout(retry)
+    for (const watcher of watchers.values()) watcher.close()
+  }
+}
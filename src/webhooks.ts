@@ -0,0 +1,146 @@
+import { createHmac } from 'crypto'
+import { request } from './http.js'
+import type { WebhookConfig, WebhookEvent, WebhookThreshold } from './config.js'
+import type { IssueGroup, Report, ReportSummary } from './types.js'
+
+export const SIGNATURE_HEADER = 'X-W3CBatch-Signature'
+export const EVENT_HEADER = 'X-W3CBatch-Event'
+const TOP_ISSUES = 10
+const SLACK_ISSUES = 5
+const WEBHOOK_TIMEOUT = 10000
+
+/** How a run ended, as seen by its webhooks. */
+export interface RunOutcome {
+  source: string
+  report?: Report
+  /** Set when the run failed before producing a report. */
+  error?: string
+  reportUrl?: string
+}
+
+export interface WebhookPayload {
+  event: WebhookEvent
+  source: string
+  summary?: ReportSummary
+  issues: Array<Omit<IssueGroup, 'urls'>>
+  reportUrl?: string
+  error?: string
+  /** The threshold limits the run went over, e.g. "errors: 12 > 0". */
+  exceeded?: string[]
+}
+
+export interface WebhookDelivery {
+  /** Origin only — webhook URLs often embed their token. */
+  target: string
+  event: WebhookEvent
+  ok: boolean
+  error?: string
+}
+
+export function exceededLimits(summary: ReportSummary, threshold: WebhookThreshold | undefined): string[] {
+  if (!threshold) return []
+  const counts: Array<[keyof WebhookThreshold, number | undefined]> = [
+    ['errors', summary.totalErrors],
+    ['warnings', summary.totalWarnings],
+    ['failedPages', summary.pagesFailed],
+    ['newErrors', summary.baseline?.newErrors],
+  ]
+  return counts
+    .filter(([key, count]) => threshold[key] !== undefined && count !== undefined && count > threshold[key]!)
+    .map(([key, count]) => `${key}: ${count} > ${threshold[key]}`)
+}
+
+/** Picks the event a webhook fires for this outcome, if any. A crossed threshold wins over plain completion. */
+function selectEvent(hook: WebhookConfig, outcome: RunOutcome): { event: WebhookEvent; exceeded?: string[] } | undefined {
+  const on = hook.on ?? ['completed', 'failed', 'threshold']
+  if (!outcome.report) return on.includes('failed') ? { event: 'failed' } : undefined
+
+  const exceeded = exceededLimits(outcome.report.summary, hook.threshold)
+  if (exceeded.length > 0 && on.includes('threshold')) return { event: 'threshold', exceeded }
+  return on.includes('completed') ? { event: 'completed' } : undefined
+}
+
+export function buildPayload(event: WebhookEvent, outcome: RunOutcome, exceeded?: string[]): WebhookPayload {
+  return {
+    event,
+    source: outcome.source,
+    summary: outcome.report?.summary,
+    issues: (outcome.report?.issues ?? []).slice(0, TOP_ISSUES).map(({ urls: _urls, ...issue }) => issue),
+    reportUrl: outcome.reportUrl,
+    error: outcome.error,
+    exceeded,
+  }
+}
+
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/** Incoming-webhook message for Slack and the chat tools that accept its format. */
+function slackMessage(payload: WebhookPayload): Record<string, unknown> {
+  const source = escapeSlack(payload.source)
+  const { summary } = payload
+  const title = payload.event === 'failed'
+    ? `:x: W3C validation failed for ${source}`
+    : payload.event === 'threshold'
+      ? `:warning: W3C validation over threshold for ${source}`
+      : summary && summary.pagesWithErrors + summary.pagesFailed > 0
+        ? `:large_orange_circle: W3C validation finished with errors for ${source}`
+        : `:white_check_mark: W3C validation passed for ${source}`
+
+  const lines = [`*${title}*`]
+  if (payload.error) lines.push(escapeSlack(payload.error))
+  if (summary) {
+    lines.push(`Pages: ${summary.totalPages} · Errors: ${summary.totalErrors} · Warnings: ${summary.totalWarnings} · Failed: ${summary.pagesFailed}`)
+  }
+  if (payload.exceeded?.length) lines.push(`Over threshold: ${escapeSlack(payload.exceeded.join(', '))}`)
+  for (const issue of payload.issues.slice(0, SLACK_ISSUES)) {
+    lines.push(`• ${escapeSlack(issue.template)} (${issue.pages} page${issue.pages !== 1 ? 's' : ''})`)
+  }
+  if (payload.reportUrl) lines.push(`<${payload.reportUrl}|Open report>`)
+
+  return {
+    text: title,
+    blocks: [{ type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } }],
+  }
+}
+
+/** `sha256=<hex HMAC of the raw body>`, like GitHub's webhook signatures. */
+export function signBody(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+}
+
+/**
+ * Fires every configured webhook that subscribes to the outcome. Delivery
+ * failures are reported in the result rather than thrown, so a dead
+ * endpoint never fails the run.
+ */
+export async function sendWebhooks(webhooks: WebhookConfig[], outcome: RunOutcome): Promise<WebhookDelivery[]> {
+  const deliveries = webhooks.map(async (hook): Promise<WebhookDelivery | undefined> => {
+    const selected = selectEvent(hook, outcome)
+    if (!selected) return undefined
+
+    const payload = buildPayload(selected.event, outcome, selected.exceeded)
+    const body = JSON.stringify(hook.template === 'slack' ? slackMessage(payload) : payload)
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      [EVENT_HEADER]: selected.event,
+      ...hook.headers,
+    }
+    const secret = hook.secretEnv ? process.env[hook.secretEnv] : hook.secret
+    if (secret) headers[SIGNATURE_HEADER] = signBody(body, secret)
+
+    // Only the origin is reported; the path of a chat webhook is its secret
+    let target = 'an invalid URL'
+    try {
+      target = new URL(hook.url).origin
+      await request({ url: hook.url, method: 'POST', data: body, headers, timeout: WEBHOOK_TIMEOUT })
+      return { target, event: selected.event, ok: true }
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err)
+      return { target, event: selected.event, ok: false, error: message }
+    }
+  })
+
+  return (await Promise.all(deliveries)).filter((delivery): delivery is WebhookDelivery => delivery !== undefined)
+}
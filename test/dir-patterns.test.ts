@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict'
+import http from 'node:http'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, before, describe, it } from 'node:test'
+import { validateSitemap } from '../src/runner.js'
+import { evaluatePolicy } from '../src/policy.js'
+
+const HTML = '<!DOCTYPE html><html lang="en"><head><title>t</title></head><body></body></html>'
+
+// Reports the same error for every page
+const validator = http.createServer((req, res) => {
+  req.resume()
+  req.on('end', () => {
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify({ messages: [{ type: 'error', message: 'Bad markup.' }] }))
+  })
+})
+
+let validatorUrl = ''
+let dir = ''
+
+before(async () => {
+  await new Promise<void>((resolve) => validator.listen(0, resolve))
+  validatorUrl = `http://localhost:${(validator.address() as { port: number }).port}/nu/`
+  dir = await mkdtemp(join(tmpdir(), 'w3cbatch-test-'))
+  await mkdir(join(dir, 'blog'))
+  await writeFile(join(dir, 'blog', 'post.html'), HTML)
+  await writeFile(join(dir, 'about.html'), HTML)
+  await writeFile(join(dir, 'sitemap.xml'), `<?xml version="1.0"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://example.com/blog/post</loc></url>
+  <url><loc>https://example.com/about</loc></url>
+</urlset>`)
+})
+
+after(async () => {
+  validator.close()
+  await rm(dir, { recursive: true, force: true })
+})
+
+function errorsBySource(pages: Array<{ sourceUrl: string; messages: unknown[] }>): Record<string, number> {
+  return Object.fromEntries(pages.map((page) => [page.sourceUrl, page.messages.length]))
+}
+
+describe('--dir pattern matching', () => {
+  it('matches suppression URL patterns against the site path when walking', async () => {
+    const report = await validateSitemap({ dir, validatorUrl, suppressions: [{ url: '/blog/**' }] }).report
+    assert.deepEqual(errorsBySource(report.pages), { 'about.html': 1, 'blog/post.html': 0 })
+  })
+
+  it('matches suppression URL patterns against the sitemap URL with a directory sitemap', async () => {
+    const suppressions = [{ url: 'https://example.com/blog/**' }]
+    const report = await validateSitemap({ dir, dirSitemap: 'sitemap.xml', validatorUrl, suppressions }).report
+    assert.deepEqual(errorsBySource(report.pages), { 'about.html': 1, 'blog/post.html': 0 })
+  })
+
+  it('holds pages to the budget whose URL pattern matches their site path', async () => {
+    const report = await validateSitemap({ dir, validatorUrl }).report
+    const violations = evaluatePolicy(report, { failOn: 'errors', budgets: [{ url: '/blog/**', errors: 1 }] })
+    // Only about.html counts toward the run-wide limit; the blog page is within its budget
+    assert.deepEqual(violations, [{ kind: 'errors', actual: 1, allowed: 0 }])
+  })
+})
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { InputError, readInput, type ValidateParams } from '../src/server-input.js'
+
+const LIMITS = { maxUrls: 100, maxSitemapBytes: 64 * 1024 }
+const URLS = ['https://example.com/']
+
+function sitemap(...locs: string[]): string {
+  const urls = locs.map((loc) => `<url><loc>${loc}</loc></url>`).join('')
+  return `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${urls}</urlset>`
+}
+
+function rejects(params: unknown, message: RegExp, status = 400): void {
+  assert.throws(() => readInput(params as ValidateParams, LIMITS), (err: unknown) => {
+    assert.ok(err instanceof InputError)
+    assert.equal(err.status, status)
+    assert.match(err.message, message)
+    return true
+  })
+}
+
+describe('readInput', () => {
+  it('accepts each kind of source', () => {
+    assert.deepEqual(readInput({ urls: URLS }, LIMITS), { kind: 'urls', urls: URLS })
+    assert.deepEqual(readInput({ sitemapUrl: ' https://example.com/sitemap.xml ' }, LIMITS), {
+      kind: 'sitemap',
+      url: 'https://example.com/sitemap.xml',
+    })
+    assert.equal(readInput({ xml: sitemap('https://example.com/a') }, LIMITS).kind, 'xml')
+    const content = Buffer.from('https://example.com/a\n').toString('base64')
+    assert.deepEqual(readInput({ file: { name: 'urls.txt', content } }, LIMITS), { kind: 'urls', urls: ['https://example.com/a'] })
+  })
+
+  it('accepts well-formed options', () => {
+    const params = { urls: URLS, base: 'https://staging.example.com', include: ['/blog/**'], exclude: ['re:\\?page='], maxPages: 5, samplePerGroup: 2 }
+    assert.equal(readInput(params, LIMITS).kind, 'urls')
+  })
+
+  it('requires exactly one source', () => {
+    rejects({}, /Provide one of/)
+    rejects({ urls: URLS, sitemapUrl: 'https://example.com/sitemap.xml' }, /Provide only one of/)
+  })
+
+  it('rejects malformed sources', () => {
+    rejects({ urls: 5 }, /"urls" must be a string or a list of strings/)
+    rejects({ urls: '# nothing here' }, /has no URLs/)
+    rejects({ urls: 'ftp://example.com/' }, /line 1: "ftp:\/\/example.com\/" is not an http\(s\) URL/)
+    rejects({ sitemapUrl: 'file:///etc/passwd' }, /must be an http\(s\) URL, not file:/)
+    rejects({ xml: '<urlset>' }, /Malformed sitemap XML/)
+    rejects({ file: { name: 'sitemap.json', content: '' } }, /Unsupported file/)
+  })
+
+  it('names a sitemap entry whose <loc> is not an http(s) URL', () => {
+    rejects({ xml: sitemap('https://example.com/a', 'not a url') }, /<url> 2 has <loc>not a url<\/loc>/)
+    const content = Buffer.from(sitemap('ftp://example.com/a')).toString('base64')
+    rejects({ file: { name: 'sitemap.xml', content } }, /^sitemap\.xml: <url> 1 has <loc>ftp:/)
+  })
+
+  it('rejects options of the wrong type', () => {
+    rejects({ urls: URLS, base: 123 }, /"base" must be a string/)
+    rejects({ urls: URLS, include: '/a' }, /"include" must be a list of URL patterns/)
+    rejects({ urls: URLS, exclude: [1] }, /"exclude" must be a list of URL patterns/)
+    rejects({ urls: URLS, include: ['re:('] }, /"include": Invalid regular expression/)
+    rejects({ urls: URLS, maxPages: 'ten' }, /"maxPages" must be a whole number/)
+    rejects({ urls: URLS, maxPages: 0 }, /"maxPages" must be a whole number/)
+    rejects({ urls: URLS, samplePerGroup: 1.5 }, /"samplePerGroup" must be a whole number/)
+  })
+
+  it('answers inputs over the limits with 413', () => {
+    rejects({ urls: Array.from({ length: 101 }, (_, i) => `https://example.com/${i}`) }, /at most 100/, 413)
+    rejects({ xml: sitemap('https://example.com/' + 'a'.repeat(LIMITS.maxSitemapBytes)) }, /byte limit/, 413)
+  })
+})
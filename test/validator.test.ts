@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict'
+import http from 'node:http'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { after, before, beforeEach, describe, it } from 'node:test'
+import { validatePage } from '../src/validator.js'
+import { configureRetries } from '../src/http.js'
+import { createPageCache } from '../src/cache.js'
+
+const HTML = '<!DOCTYPE html><html lang="en"><head><title>t</title></head><body></body></html>'
+
+/** Keyed by method and path, e.g. `POST /nu/`: answers with `status` for the next `count` requests. */
+let failures = new Map<string, { status: number; count: number }>()
+
+function failNext(request: string, status: number, count = 1): void {
+  failures.set(request, { status, count })
+}
+
+const server = http.createServer((req, res) => {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname
+  const failure = failures.get(`${req.method} ${path}`)
+  if (failure && failure.count > 0) {
+    failure.count--
+    res.writeHead(failure.status)
+    res.end()
+    return
+  }
+  req.resume()
+  req.on('end', () => {
+    if (path === '/nu/') {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ messages: [] }))
+    } else {
+      res.writeHead(200, { 'Content-Type': 'text/html' })
+      res.end(HTML)
+    }
+  })
+})
+
+let origin = ''
+let validatorUrl = ''
+
+before(async () => {
+  configureRetries({ minDelay: 1, maxDelay: 1 })
+  await new Promise<void>((resolve) => server.listen(0, resolve))
+  const { port } = server.address() as { port: number }
+  origin = `http://localhost:${port}`
+  validatorUrl = `${origin}/nu/`
+})
+
+after(() => {
+  server.close()
+})
+
+beforeEach(() => {
+  failures = new Map()
+})
+
+describe('validatePage attempts', () => {
+  it('counts a fetched and validated page without retries as one attempt', async () => {
+    const result = await validatePage(`${origin}/clean`, { validatorUrl })
+    assert.equal(result.attempts, 1)
+    assert.equal(result.fallbackReason, undefined)
+  })
+
+  it('counts a file: page as one attempt', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'w3cbatch-test-'))
+    try {
+      await writeFile(join(dir, 'index.html'), HTML)
+      const result = await validatePage(pathToFileURL(join(dir, 'index.html')).href, { validatorUrl })
+      assert.equal(result.attempts, 1)
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('adds the retries of the fetch and of the validation', async () => {
+    failNext('GET /retried', 502)
+    failNext('POST /nu/', 502, 2)
+    const result = await validatePage(`${origin}/retried`, { validatorUrl })
+    assert.equal(result.attempts, 4)
+  })
+
+  it('adds the attempts of a failed validation by URL only when it fell back', async () => {
+    // Not localhost to the validator, so the page is first validated by URL
+    const { port } = server.address() as { port: number }
+    failNext('GET /nu/', 500)
+    const result = await validatePage(`http://[::1]:${port}/remote`, { validatorUrl })
+    assert.ok(result.fallbackReason)
+    assert.equal(result.attempts, 2)
+  })
+
+  it('counts one attempt on a cache miss and on a cache hit', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'w3cbatch-test-'))
+    try {
+      const cache = createPageCache(dir, 60_000)
+      const miss = await validatePage(`${origin}/cached`, { validatorUrl, cache })
+      const hit = await validatePage(`${origin}/cached`, { validatorUrl, cache })
+      assert.equal(miss.cached, false)
+      assert.equal(miss.attempts, 1)
+      assert.equal(hit.cached, true)
+      assert.equal(hit.attempts, 1)
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})